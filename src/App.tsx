@@ -8,6 +8,9 @@ import { AuthGuard } from "@/components/AuthGuard";
 import { useAuth } from "@/state/useAuth";
 import Login from "./routes/Login";
 import Dashboard from "./routes/Dashboard";
+import CameraView from "./routes/CameraView";
+import ArchiveView from "./routes/ArchiveView";
+import CameraPopout from "./routes/CameraPopout";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -42,6 +45,30 @@ const AppContent = () => {
           </AuthGuard>
         }
       />
+      <Route
+        path="/cameras/:id"
+        element={
+          <AuthGuard>
+            <CameraView />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/cameras/:id/archive"
+        element={
+          <AuthGuard>
+            <ArchiveView />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/cameras/:id/popout"
+        element={
+          <AuthGuard>
+            <CameraPopout />
+          </AuthGuard>
+        }
+      />
 
       {/* Redirect root to dashboard */}
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
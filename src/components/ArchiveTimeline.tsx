@@ -0,0 +1,92 @@
+import { MouseEvent, useMemo, useState } from 'react';
+import { addHours, format } from 'date-fns';
+import { RecordingSegment } from '@/types/camera';
+import { buildTimeline } from '@/lib/archive';
+import { cn } from '@/lib/utils';
+
+interface ArchiveTimelineProps {
+  from: Date;
+  to: Date;
+  segments: RecordingSegment[];
+  position: number | null;   // epoch ms posisi play
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+const HOUR_MARKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+export const ArchiveTimeline = ({ from, to, segments, position, onSeek, className }: ArchiveTimelineProps) => {
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const start = from.getTime();
+  const span = to.getTime() - start;
+
+  const ranges = useMemo(() => buildTimeline(segments, start, start + span), [segments, start, span]);
+
+  const toPercent = (time: number) => ((time - start) / span) * 100;
+
+  const timeAt = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    return start + ratio * span;
+  };
+
+  return (
+    <div className={cn('select-none', className)}>
+      <div
+        className="relative h-8 rounded bg-muted cursor-pointer overflow-hidden"
+        onClick={(e) => onSeek(timeAt(e))}
+        onMouseMove={(e) => setHoverTime(timeAt(e))}
+        onMouseLeave={() => setHoverTime(null)}
+      >
+        {ranges
+          .filter((range) => range.recorded)
+          .map((range) => (
+            <div
+              key={range.start}
+              className="absolute inset-y-0 bg-primary/70"
+              style={{ left: `${toPercent(range.start)}%`, width: `${toPercent(range.end) - toPercent(range.start)}%` }}
+            />
+          ))}
+
+        {hoverTime !== null && (
+          <div
+            className="absolute inset-y-0 w-px bg-foreground/50 pointer-events-none"
+            style={{ left: `${toPercent(hoverTime)}%` }}
+          >
+            <span className="absolute top-0 left-1 text-[10px] font-mono bg-card/90 px-1 rounded whitespace-nowrap">
+              {format(hoverTime, 'HH:mm:ss')}
+            </span>
+          </div>
+        )}
+
+        {position !== null && position >= start && position <= start + span && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-destructive pointer-events-none"
+            style={{ left: `${toPercent(position)}%` }}
+          />
+        )}
+      </div>
+
+      <div className="relative h-4 mt-1 text-[10px] text-muted-foreground font-mono">
+        {HOUR_MARKS.map((hour) => (
+          <span
+            key={hour}
+            className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+            style={{ left: `${toPercent(addHours(from, hour).getTime())}%` }}
+          >
+            {String(hour).padStart(2, '0')}:00
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-3 rounded-sm bg-primary/70" /> Recorded
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-3 rounded-sm bg-muted border border-border" /> No recording
+        </span>
+      </div>
+    </div>
+  );
+};
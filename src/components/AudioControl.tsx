@@ -0,0 +1,83 @@
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+
+interface AudioControlProps {
+  audible: boolean;
+  volume: number;
+  level: number | null;   // null = level tidak bisa diukur
+  onToggle: () => void;
+  onVolumeChange: (volume: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const METER_SEGMENTS = 8;
+
+const AudioLevelMeter = ({ level }: { level: number }) => {
+  const lit = Math.round(level * METER_SEGMENTS);
+  return (
+    <div className="flex h-3 items-end gap-px" title="Audio level">
+      {Array.from({ length: METER_SEGMENTS }, (_, i) => (
+        <div
+          key={i}
+          className={cn(
+            'w-1 rounded-sm transition-colors',
+            i < lit ? (i >= METER_SEGMENTS - 2 ? 'bg-destructive' : 'bg-primary') : 'bg-muted-foreground/30'
+          )}
+          style={{ height: `${((i + 1) / METER_SEGMENTS) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+// Tombol unmute + volume + meter; hanya satu kamera yang bisa audible sekaligus
+export const AudioControl = ({
+  audible,
+  volume,
+  level,
+  onToggle,
+  onVolumeChange,
+  disabled = false,
+  className,
+}: AudioControlProps) => {
+  const VolumeIcon = !audible ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div
+      data-zoom-ignore
+      className={cn(
+        'flex items-center gap-2 bg-card/80 backdrop-blur rounded',
+        audible ? 'px-1.5 py-1 text-primary' : 'p-1',
+        className
+      )}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onToggle}
+        className="disabled:opacity-50"
+        title={audible ? 'Mute' : 'Unmute (mutes other cameras)'}
+      >
+        <VolumeIcon className="h-3.5 w-3.5" />
+      </button>
+      {audible && (
+        <>
+          <Slider
+            className="w-16"
+            min={0}
+            max={1}
+            step={0.05}
+            value={[volume]}
+            onValueChange={([value]) => onVolumeChange(value)}
+            aria-label="Volume"
+          />
+          {level !== null && <AudioLevelMeter level={level} />}
+        </>
+      )}
+    </div>
+  );
+};
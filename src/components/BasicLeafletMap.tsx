@@ -1,6 +1,8 @@
 import { useEffect, useRef } from 'react';
 import L, { Map as LeafletMap, Marker as LeafletMarker } from 'leaflet';
 import { Camera } from '@/types/camera';
+import { setCameraDragData } from '@/lib/cameraDrag';
+import { useLayoutPrefs } from '@/state/useLayoutPrefs';
 import { renderToString } from 'react-dom/server';
 import 'leaflet/dist/leaflet.css';
 
@@ -18,13 +20,17 @@ interface BasicLeafletMapProps {
   cameras: Camera[];
   focusedCameraId?: string;
   onEditCamera: (camera: Camera) => void;
+  onOpenCameraView: (camera: Camera) => void;
   onShowInGrid: (camera: Camera) => void;
 }
 
-export const BasicLeafletMap = ({ cameras, focusedCameraId, onEditCamera, onShowInGrid }: BasicLeafletMapProps) => {
+export const BasicLeafletMap = ({ cameras, focusedCameraId, onEditCamera, onOpenCameraView, onShowInGrid }: BasicLeafletMapProps) => {
   const mapRef = useRef<HTMLDivElement | null>(null);
   const leafletMapRef = useRef<LeafletMap | null>(null);
   const markersRef = useRef<Record<string, LeafletMarker>>({});
+  const fittedRef = useRef(false);
+  const mapViewport = useLayoutPrefs((s) => s.mapViewport);
+  const setMapViewport = useLayoutPrefs((s) => s.setMapViewport);
 
   // Initialize map once
   useEffect(() => {
@@ -42,11 +48,29 @@ export const BasicLeafletMap = ({ cameras, focusedCameraId, onEditCamera, onShow
 
     leafletMapRef.current = map;
 
+    // posisi peta ikut tersimpan (dipakai saved view)
+    map.on('moveend', () => {
+      const center = map.getCenter();
+      setMapViewport({ center: [center.lat, center.lng], zoom: map.getZoom() });
+    });
+
     return () => {
       map.remove();
       leafletMapRef.current = null;
     };
-  }, []);
+  }, [setMapViewport]);
+
+  // Terapkan viewport tersimpan (load preferensi / ganti saved view)
+  useEffect(() => {
+    const map = leafletMapRef.current;
+    if (!map || !mapViewport) return;
+    fittedRef.current = true;
+    const center = map.getCenter();
+    const [lat, lng] = mapViewport.center;
+    const same =
+      map.getZoom() === mapViewport.zoom && Math.abs(center.lat - lat) < 1e-6 && Math.abs(center.lng - lng) < 1e-6;
+    if (!same) map.setView(mapViewport.center, mapViewport.zoom);
+  }, [mapViewport]);
 
   // Sync markers
   useEffect(() => {
@@ -90,12 +114,21 @@ export const BasicLeafletMap = ({ cameras, focusedCameraId, onEditCamera, onShow
               <button id="show-${camera.id}" class="flex-1 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded">Show in Grid</button>
               <button id="edit-${camera.id}" class="flex-1 px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded">Edit</button>
             </div>
+            <button id="view-${camera.id}" class="mt-2 w-full px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded">Open Camera View</button>
+            <div id="drag-${camera.id}" draggable="true" class="mt-2 w-full px-3 py-1.5 text-xs text-center text-muted-foreground border border-dashed border-border rounded cursor-grab">Drag onto a grid cell</div>
           `;
           setTimeout(() => {
             const showBtn = div.querySelector(`#show-${camera.id}`) as HTMLButtonElement | null;
             const editBtn = div.querySelector(`#edit-${camera.id}`) as HTMLButtonElement | null;
+            const viewBtn = div.querySelector(`#view-${camera.id}`) as HTMLButtonElement | null;
             showBtn?.addEventListener('click', () => onShowInGrid(camera));
             editBtn?.addEventListener('click', () => onEditCamera(camera));
+            viewBtn?.addEventListener('click', () => onOpenCameraView(camera));
+            // marker sendiri tidak bisa di-drag native (dipakai Leaflet), jadi lewat handle di popup
+            const dragHandle = div.querySelector(`#drag-${camera.id}`) as HTMLDivElement | null;
+            dragHandle?.addEventListener('dragstart', (e) => {
+              if (e.dataTransfer) setCameraDragData(e.dataTransfer, camera.id);
+            });
           }, 0);
           return div;
         });
@@ -105,12 +138,13 @@ export const BasicLeafletMap = ({ cameras, focusedCameraId, onEditCamera, onShow
       }
     });
 
-    // Fit bounds initially
-    if (cameras.length > 0) {
+    // Fit bounds initially (sekali saja, dan hanya kalau belum ada viewport tersimpan)
+    if (cameras.length > 0 && !fittedRef.current) {
+      fittedRef.current = true;
       const bounds = L.latLngBounds(cameras.map((c) => [c.latitude, c.longitude]) as [number, number][]);
       map.fitBounds(bounds, { padding: [50, 50], maxZoom: 15 });
     }
-  }, [cameras, onEditCamera, onShowInGrid]);
+  }, [cameras, onEditCamera, onOpenCameraView, onShowInGrid]);
 
   // Focus camera
   useEffect(() => {
@@ -1,93 +1,373 @@
 import { useEffect, useRef, useState } from 'react';
-import { Play, MoreVertical } from 'lucide-react';
+import { Play, MoreVertical, Pin, Maximize2, Minimize2, Move, Volume2, PictureInPicture2, ListVideo } from 'lucide-react';
 import { Camera } from '@/types/camera';
-import { HlsPlayer } from '@/lib/hlsPlayer';
+import { StreamProtocolPreference, formatLevelLabel } from '@/lib/streamPlayer';
+import { PLAYBACK_PROFILES, PlaybackProfileId } from '@/lib/playbackProfiles';
+import { SnapshotFormat, downloadSnapshot } from '@/lib/snapshot';
+import { useCameraStream } from '@/hooks/use-camera-stream';
+import { useTileVisibility } from '@/hooks/use-tile-visibility';
+import { useClipRecorder } from '@/hooks/use-clip-recorder';
+import { useDigitalZoom } from '@/hooks/use-digital-zoom';
+import { usePtzControl } from '@/hooks/use-ptz-control';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { usePictureInPicture } from '@/hooks/use-picture-in-picture';
+import { openCameraPopout } from '@/lib/popout';
+import { useAudioOutput } from '@/hooks/use-audio-output';
+import { useCameraDrop } from '@/hooks/use-camera-drop';
+import { setCameraDragData } from '@/lib/cameraDrag';
+import { DEWARP_MODES, DewarpMode, resolveDewarpMode } from '@/lib/fisheyeDewarp';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+import { PlayerStateOverlay } from './PlayerStateOverlay';
+import { RefreshingSnapshot } from './RefreshingSnapshot';
+import { ClipRecordButton } from './ClipRecordButton';
+import { LiveScrubber } from './LiveScrubber';
+import { ZoomMinimap } from './ZoomMinimap';
+import { PtzOverlay } from './PtzOverlay';
+import { AudioControl } from './AudioControl';
+import { FisheyeCanvas } from './FisheyeCanvas';
 import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
 import {
   ContextMenu,
+  ContextMenuCheckboxItem,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
 
+const SNAPSHOT_REFRESH_INTERVAL = 5000;
+
+// Posisi kamera di sequence sel (salvo), untuk indikator giliran
+interface CardSequence {
+  position: number;
+  length: number;
+  dwellSeconds: number;
+  startedAt: number;
+}
+
 interface CameraCardProps {
   camera: Camera;
+  gridArea?: string;      // posisi & span tile di layout grid
+  sequence?: CardSequence; // sel ini bergiliran menampilkan beberapa kamera
   autoPlay: boolean;
+  live: boolean;          // false = di luar budget decoder, tampilkan snapshot
+  pinned: boolean;
+  maximized: boolean;
+  playbackProfile: PlaybackProfileId;
+  onTogglePin: (camera: Camera) => void;
+  onToggleMaximize: (camera: Camera) => void;
+  onHoverChange: (camera: Camera, hovering: boolean) => void;
+  onPictureInPictureChange: (camera: Camera, active: boolean) => void;
+  onActivate: (camera: Camera) => void;
   onEdit: (camera: Camera) => void;
   onDelete: (camera: Camera) => void;
   onFocusOnMap: (camera: Camera) => void;
+  onOpenView: (camera: Camera) => void;
+  onEditView: (camera: Camera) => void;
+  onDropCamera: (cameraId: string) => void; // kamera lain di-drop ke sel ini
+  onEditSequence: (camera: Camera) => void;
 }
 
 export const CameraCard = ({
   camera,
+  gridArea,
+  sequence,
   autoPlay,
+  live,
+  pinned,
+  maximized,
+  playbackProfile,
+  onTogglePin,
+  onToggleMaximize,
+  onHoverChange,
+  onPictureInPictureChange,
+  onActivate,
   onEdit,
   onDelete,
   onFocusOnMap,
+  onOpenView,
+  onEditView,
+  onDropCamera,
+  onEditSequence,
 }: CameraCardProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const playerRef = useRef<HlsPlayer | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [showPlayButton, setShowPlayButton] = useState(!autoPlay);
+  const cellRef = useRef<HTMLDivElement>(null);
+  const zoomAreaRef = useRef<HTMLDivElement>(null);
+  const visible = useTileVisibility(cellRef);
+  const [manualStart, setManualStart] = useState(false);
+  const [ptzOpen, setPtzOpen] = useState(false);
+  const wantsPlayback = autoPlay || manualStart;
+  const enabled = wantsPlayback && live;
+
+  const pip = usePictureInPicture(videoRef);
 
+  // grid menjaga tile PiP tetap live di luar budget
   useEffect(() => {
-    if (!videoRef.current || !camera.hls_url) return;
+    if (!pip.active) return;
+    onPictureInPictureChange(camera, true);
+    return () => onPictureInPictureChange(camera, false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pip.active, camera.id]);
 
-    if (autoPlay) {
-      playerRef.current = new HlsPlayer(videoRef.current);
-      playerRef.current.load(camera.hls_url);
-      setIsPlaying(true);
-      setShowPlayButton(false);
-    }
+  const {
+    playerRef,
+    state: playerState,
+    hasPlayed,
+    failureDetail,
+    protocol,
+    retry,
+    levels,
+    activeLevel,
+    selectedLevel,
+    setLevel,
+  } = useCameraStream(videoRef, camera, {
+    enabled,
+    suspended: !visible && !pip.active, // jendela PiP tetap jalan walau tile di luar layar
+    defaultProfile: playbackProfile,
+  });
+  const sortedLevels = [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+  const activeLevelInfo = levels.find((level) => level.level === activeLevel);
+
+  const clip = useClipRecorder(videoRef, camera);
+  const canRecord = enabled && hasPlayed;
+
+  const audio = useAudioOutput(videoRef, camera.id, { available: canRecord });
+
+  const protocolPref = useCameraPrefs((s) => s.prefs[camera.id]?.protocol);
+  const profilePref = useCameraPrefs((s) => s.prefs[camera.id]?.profile);
+  const setCameraPrefs = useCameraPrefs((s) => s.setCameraPrefs);
+  const rememberZoom = useCameraPrefs((s) => s.prefs[camera.id]?.rememberZoom ?? false);
+  const savedZoom = useCameraPrefs((s) => s.prefs[camera.id]?.zoom);
+  const dewarpPref = useCameraPrefs((s) => s.prefs[camera.id]?.dewarp);
+  const dewarpMode = resolveDewarpMode(camera, dewarpPref);
+  const dewarping = dewarpMode !== 'original' && enabled && hasPlayed;
+
+  // zoom digital bekerja di frame mentah, jadi dimatikan selama dewarp
+  const { zoom, setZoom, reset: resetZoom, zoomed } = useDigitalZoom(zoomAreaRef, {
+    enabled: enabled && hasPlayed && !dewarping,
+    initial: rememberZoom ? savedZoom : undefined,
+    onCommit: (value) => {
+      if (rememberZoom) setCameraPrefs(camera.id, { zoom: value });
+    },
+  });
+
+  const viewTransform = useViewTransform(zoomAreaRef, camera.id, zoom);
+
+  // tile maximize → kontrol PTZ otomatis tampil dan keyboard aktif
+  const showPtz = Boolean(camera.ptz_enabled) && enabled && hasPlayed && (maximized || ptzOpen);
+  const ptz = usePtzControl(camera.id, { enabled: showPtz, keyboard: maximized });
+
+  const handleRememberZoomChange = (checked: boolean) => {
+    setCameraPrefs(camera.id, { rememberZoom: checked, zoom: checked ? zoom : undefined });
+  };
 
-    return () => {
-      playerRef.current?.destroy();
-      playerRef.current = null;
-    };
-  }, [camera.hls_url, autoPlay]);
+  const handleProtocolChange = (value: string) => {
+    setCameraPrefs(camera.id, {
+      protocol: value === 'default' ? undefined : (value as StreamProtocolPreference),
+    });
+  };
 
-  const handlePlay = () => {
-    if (!videoRef.current || playerRef.current || !camera.hls_url) return;
+  const handleSnapshot = async (fileFormat: SnapshotFormat) => {
+    if (!videoRef.current) return;
+    try {
+      await downloadSnapshot(videoRef.current, camera, fileFormat);
+    } catch (error) {
+      toast.error('Snapshot failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
 
-    playerRef.current = new HlsPlayer(videoRef.current);
-    playerRef.current.load(camera.hls_url);
-    setIsPlaying(true);
-    setShowPlayButton(false);
+  const handlePopOut = () => {
+    if (!openCameraPopout(camera.id)) {
+      toast.error('Pop-out blocked', { description: 'Allow pop-ups for this site to open camera windows' });
+    }
   };
 
+  const handleProfileChange = (value: string) => {
+    setCameraPrefs(camera.id, {
+      profile: value === 'default' ? undefined : (value as PlaybackProfileId),
+    });
+  };
+
+  const drop = useCameraDrop(onDropCamera);
+
   return (
     <ContextMenu>
       <ContextMenuTrigger asChild>
-        <div className="grid-cell group">
+        <div
+          ref={cellRef}
+          className={`grid-cell group${audio.audible ? ' audible' : ''}${drop.over ? ' drop-target' : ''}`}
+          style={{ gridArea }}
+          {...drop.dropHandlers}
+          onPointerEnter={() => onHoverChange(camera, true)}
+          onPointerLeave={() => onHoverChange(camera, false)}
+          onClick={() => onActivate(camera)}
+          onDoubleClick={() => onToggleMaximize(camera)}
+        >
           <div className="absolute top-2 left-2 right-2 z-10 flex items-center justify-between">
-            <div className="flex items-center gap-2 bg-card/80 backdrop-blur px-2 py-1 rounded">
+            {/* label jadi pegangan drag untuk tukar posisi tile */}
+            <div
+              className="flex items-center gap-2 bg-card/80 backdrop-blur px-2 py-1 rounded cursor-grab"
+              draggable
+              onDragStart={(e) => setCameraDragData(e.dataTransfer, camera.id)}
+              title="Drag to another cell to swap"
+            >
               <div className={`status-dot ${camera.status.toLowerCase()}`} />
               <span className="text-xs font-medium">{camera.name}</span>
+              {protocol === 'webrtc' && (
+                <span className="text-[10px] font-semibold text-primary">RTC</span>
+              )}
+              {pinned && <Pin className="h-3 w-3 text-primary" />}
+              {audio.audible && <Volume2 className="h-3 w-3 text-primary" />}
+              {pip.active && <PictureInPicture2 className="h-3 w-3 text-primary" />}
+              {sequence && (
+                <span className="flex items-center gap-1 text-[10px] font-semibold text-primary">
+                  <ListVideo className="h-3 w-3" />
+                  {sequence.position + 1}/{sequence.length}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {wantsPlayback && !live && (
+                <span className="bg-card/80 backdrop-blur px-2 py-1 rounded text-[10px] font-semibold text-muted-foreground">
+                  SNAPSHOT
+                </span>
+              )}
+              {canRecord && (
+                <AudioControl
+                  audible={audio.audible}
+                  volume={audio.volume}
+                  level={audio.level}
+                  onToggle={audio.toggle}
+                  onVolumeChange={audio.setVolume}
+                  className={audio.audible ? undefined : 'opacity-0 group-hover:opacity-100 transition-opacity'}
+                />
+              )}
+              {(canRecord || clip.recording) && (
+                <ClipRecordButton
+                  recording={clip.recording}
+                  elapsed={clip.elapsed}
+                  maxSeconds={clip.maxSeconds}
+                  onStart={clip.start}
+                  onStop={clip.stop}
+                  className={clip.recording ? undefined : 'opacity-0 group-hover:opacity-100 transition-opacity'}
+                />
+              )}
+              {camera.ptz_enabled && canRecord && !maximized && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setPtzOpen((open) => !open);
+                  }}
+                  className={`bg-card/80 backdrop-blur p-1 rounded transition-opacity ${
+                    ptzOpen ? 'text-primary' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                  title={ptzOpen ? 'Hide PTZ controls' : 'Show PTZ controls'}
+                >
+                  <Move className="h-3.5 w-3.5" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleMaximize(camera);
+                }}
+                className="bg-card/80 backdrop-blur p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                title={maximized ? 'Restore' : 'Maximize'}
+              >
+                {maximized ? <Minimize2 className="h-3.5 w-3.5" /> : <Maximize2 className="h-3.5 w-3.5" />}
+              </button>
             </div>
           </div>
 
-          <div className="video-container">
-            {camera.snapshot_url && !isPlaying && (
+          <div ref={zoomAreaRef} className="video-container">
+            {camera.snapshot_url && wantsPlayback && !live && (
+              <RefreshingSnapshot
+                src={camera.snapshot_url}
+                alt={camera.name}
+                intervalMs={SNAPSHOT_REFRESH_INTERVAL}
+                className="absolute inset-0 w-full h-full object-cover"
+                style={viewTransform.stillStyle}
+              />
+            )}
+
+            {camera.snapshot_url && !hasPlayed && !(wantsPlayback && !live) && (
               <img
                 src={camera.snapshot_url}
                 alt={camera.name}
                 className="absolute inset-0 w-full h-full object-cover"
+                style={viewTransform.stillStyle}
               />
             )}
 
             <video
               ref={videoRef}
+              data-camera-id={camera.id}
               className="w-full h-full object-cover"
+              style={viewTransform.style}
               muted
               playsInline
             />
 
-            {showPlayButton && (
+            {dewarping && <FisheyeCanvas videoRef={videoRef} mode={dewarpMode} filter={viewTransform.filter} />}
+
+            <PlayerStateOverlay
+              state={playerState}
+              failureDetail={failureDetail}
+              onRetry={retry}
+            />
+
+            {sequence && sequence.length > 1 && (
+              <div
+                key={sequence.startedAt}
+                className="dwell-progress absolute inset-x-0 bottom-0 z-10 h-0.5 bg-primary"
+                style={{ animationDuration: `${sequence.dwellSeconds}s` }}
+              />
+            )}
+
+            {maximized && enabled && hasPlayed && (
+              <LiveScrubber playerRef={playerRef} className="absolute bottom-2 left-2 right-2 z-10" />
+            )}
+
+            {showPtz && (
+              <PtzOverlay
+                presets={ptz.presets}
+                onMove={ptz.move}
+                onStop={ptz.stop}
+                onZoom={ptz.zoom}
+                onGotoPreset={ptz.gotoPreset}
+                onSavePreset={ptz.savePreset}
+                compact={!maximized}
+                className={`absolute left-2 z-10 ${maximized ? 'bottom-14' : 'bottom-2'}`}
+              />
+            )}
+
+            {zoomed && enabled && !dewarping && (
+              <ZoomMinimap
+                videoRef={videoRef}
+                zoom={zoom}
+                width={maximized ? 160 : 96}
+                onNavigate={(x, y) => setZoom({ ...zoom, x, y })}
+                onReset={resetZoom}
+                className={`absolute right-2 z-10 ${maximized ? 'bottom-14' : 'bottom-2'}`}
+              />
+            )}
+
+            {!wantsPlayback && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <Button
                   size="lg"
                   className="rounded-full w-16 h-16"
-                  onClick={handlePlay}
+                  onClick={() => setManualStart(true)}
                 >
                   <Play className="h-8 w-8" />
                 </Button>
@@ -104,9 +384,119 @@ export const CameraCard = ({
       </ContextMenuTrigger>
 
       <ContextMenuContent>
+        <ContextMenuItem onClick={() => onOpenView(camera)}>
+          Open Camera View
+        </ContextMenuItem>
+        <ContextMenuItem onClick={handlePopOut}>
+          Pop Out Window
+        </ContextMenuItem>
+        <ContextMenuItem disabled={!pip.supported || !canRecord} onClick={pip.toggle}>
+          {pip.active ? 'Exit Picture-in-Picture' : 'Picture-in-Picture'}
+        </ContextMenuItem>
+        <ContextMenuItem onClick={() => onToggleMaximize(camera)}>
+          {maximized ? 'Restore Tile' : 'Maximize Tile'}
+        </ContextMenuItem>
+        <ContextMenuItem onClick={() => onTogglePin(camera)}>
+          {pinned ? 'Unpin Live' : 'Pin Live'}
+        </ContextMenuItem>
         <ContextMenuItem onClick={() => onFocusOnMap(camera)}>
           Open in Map
         </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={!hasPlayed}>Take Snapshot</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuItem onClick={() => handleSnapshot('png')}>PNG</ContextMenuItem>
+            <ContextMenuItem onClick={() => handleSnapshot('jpeg')}>JPEG</ContextMenuItem>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        {clip.recording ? (
+          <ContextMenuItem onClick={clip.stop}>Stop Recording</ContextMenuItem>
+        ) : (
+          <ContextMenuItem disabled={!canRecord} onClick={clip.start}>
+            Record Clip
+          </ContextMenuItem>
+        )}
+        <ContextMenuItem disabled={!canRecord} onClick={audio.toggle}>
+          {audio.audible ? 'Mute Audio' : 'Unmute Audio'}
+        </ContextMenuItem>
+        {camera.lens_type === 'fisheye' && (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>Fisheye View</ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              <ContextMenuRadioGroup
+                value={dewarpMode}
+                onValueChange={(value) => setCameraPrefs(camera.id, { dewarp: value as DewarpMode })}
+              >
+                {DEWARP_MODES.map((mode) => (
+                  <ContextMenuRadioItem key={mode.id} value={mode.id}>
+                    {mode.label}
+                  </ContextMenuRadioItem>
+                ))}
+              </ContextMenuRadioGroup>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+        <ContextMenuItem onClick={() => onEditView(camera)}>
+          View Settings…
+        </ContextMenuItem>
+        <ContextMenuItem onClick={() => onEditSequence(camera)}>
+          {sequence ? 'Edit Cell Sequence…' : 'Camera Sequence…'}
+        </ContextMenuItem>
+        <ContextMenuItem disabled={!zoomed} onClick={resetZoom}>
+          Reset Zoom
+        </ContextMenuItem>
+        <ContextMenuCheckboxItem checked={rememberZoom} onCheckedChange={handleRememberZoomChange}>
+          Remember Zoom
+        </ContextMenuCheckboxItem>
+        <ContextMenuSeparator />
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>Stream Protocol</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup value={protocolPref ?? 'default'} onValueChange={handleProtocolChange}>
+              <ContextMenuRadioItem value="default">Default</ContextMenuRadioItem>
+              <ContextMenuRadioItem value="auto">Auto (WebRTC → HLS)</ContextMenuRadioItem>
+              <ContextMenuRadioItem value="webrtc" disabled={!camera.webrtc_url}>WebRTC</ContextMenuRadioItem>
+              <ContextMenuRadioItem value="hls" disabled={!camera.hls_url}>HLS</ContextMenuRadioItem>
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={levels.length < 2}>Quality</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup
+              value={String(selectedLevel)}
+              onValueChange={(value) => setLevel(Number(value))}
+            >
+              <ContextMenuRadioItem value="-1">
+                Auto{activeLevelInfo && selectedLevel === -1 ? ` (${formatLevelLabel(activeLevelInfo, levels)})` : ''}
+              </ContextMenuRadioItem>
+              {sortedLevels.map((level) => (
+                <ContextMenuRadioItem key={level.level} value={String(level.level)}>
+                  {formatLevelLabel(level, levels)}
+                  {level.level === activeLevel && (
+                    <span className="ml-auto pl-3 text-[10px] font-semibold text-primary">ACTIVE</span>
+                  )}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>Playback Profile</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup value={profilePref ?? 'default'} onValueChange={handleProfileChange}>
+              <ContextMenuRadioItem value="default">
+                Layout default ({PLAYBACK_PROFILES[playbackProfile].label})
+              </ContextMenuRadioItem>
+              {Object.entries(PLAYBACK_PROFILES).map(([id, profile]) => (
+                <ContextMenuRadioItem key={id} value={id}>
+                  {profile.label}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
         <ContextMenuItem onClick={() => onEdit(camera)}>
           Edit Camera
         </ContextMenuItem>
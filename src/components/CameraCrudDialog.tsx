@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { Camera, CameraStatus } from '@/types/camera';
+import { Camera, CameraStatus, LensType } from '@/types/camera';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -40,6 +41,8 @@ interface FormData {
   zone: string;
   model: string;
   status: CameraStatus;
+  ptz_enabled: boolean;
+  lens_type: LensType;
 }
 
 export const CameraCrudDialog = ({
@@ -59,6 +62,8 @@ export const CameraCrudDialog = ({
     zone: '',
     model: 'PTZ Camera',
     status: 'UNKNOWN',
+    ptz_enabled: false,
+    lens_type: 'standard',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -76,6 +81,8 @@ export const CameraCrudDialog = ({
         zone: camera.zone || '',
         model: camera.model || 'PTZ Camera',
         status: camera.status,
+        ptz_enabled: camera.ptz_enabled ?? false,
+        lens_type: camera.lens_type ?? 'standard',
       });
     } else {
       // Reset form untuk create mode
@@ -89,6 +96,8 @@ export const CameraCrudDialog = ({
         zone: '',
         model: 'PTZ Camera',
         status: 'UNKNOWN',
+        ptz_enabled: false,
+        lens_type: 'standard',
       });
     }
     setErrors({});
@@ -165,6 +174,8 @@ export const CameraCrudDialog = ({
         zone: formData.zone.trim(),
         model: formData.model.trim(),
         status: formData.status,
+        ptz_enabled: formData.ptz_enabled,
+        lens_type: formData.lens_type,
         // Static values
         ip_address: ip,
         port: port,
@@ -401,6 +412,40 @@ export const CameraCrudDialog = ({
             </div>
           </div>
 
+          {/* PTZ */}
+          <div className="flex items-center justify-between rounded-lg border border-border p-3">
+            <div className="grid gap-1">
+              <Label htmlFor="ptzEnabled">PTZ Control</Label>
+              <span className="text-xs text-muted-foreground">
+                Show pan/tilt/zoom controls for this camera
+              </span>
+            </div>
+            <Switch
+              id="ptzEnabled"
+              checked={formData.ptz_enabled}
+              onCheckedChange={(checked) => setFormData({ ...formData, ptz_enabled: checked })}
+              disabled={loading}
+            />
+          </div>
+
+          {/* Lens */}
+          <div className="grid gap-2">
+            <Label htmlFor="lensType">Lens Type</Label>
+            <Select
+              value={formData.lens_type}
+              onValueChange={(value) => setFormData({ ...formData, lens_type: value as LensType })}
+              disabled={loading}
+            >
+              <SelectTrigger id="lensType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard</SelectItem>
+                <SelectItem value="fisheye">Fisheye (360°)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Info Box */}
           <div className="rounded-lg border border-border bg-muted/50 p-4 text-sm">
             <p className="font-medium mb-2">Automatic Settings:</p>
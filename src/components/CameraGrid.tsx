@@ -1,19 +1,75 @@
-import { useMemo } from 'react';
-import { Plus, Grid2x2, Settings } from 'lucide-react';
-import { Camera, GRID_LAYOUTS } from '@/types/camera';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Grid2x2, LayoutTemplate, Settings, SlidersHorizontal, Camera as CameraIcon, History, Volume2, X } from 'lucide-react';
+import { Camera, GRID_LAYOUTS, GridLayout, PresetGridLayout } from '@/types/camera';
 import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { useCameras } from '@/state/useCameras';
+import { useAudioFocus } from '@/state/useAudioFocus';
+import { selectLiveCameras } from '@/lib/liveBudget';
+import { resolveGridLayout, tileGridArea } from '@/lib/gridLayouts';
+import { arrangeCells, placeCamera, resolveActiveSequences } from '@/lib/cellAssignments';
+import { useCameraDrop } from '@/hooks/use-camera-drop';
+import { useCellSequences } from '@/hooks/use-cell-sequences';
+import { SnapshotFormat, downloadSnapshotZip } from '@/lib/snapshot';
+import { toast } from 'sonner';
+import { StreamProtocolPreference } from '@/lib/streamPlayer';
+import { DEFAULT_PLAYBACK_PROFILE, PLAYBACK_PROFILES, PlaybackProfileId } from '@/lib/playbackProfiles';
 import { CameraCard } from './CameraCard';
+import { SyncArchivePlayback } from './SyncArchivePlayback';
+import { SyncPlaybackDialog } from './SyncPlaybackDialog';
+import { ViewSettingsDialog } from './ViewSettingsDialog';
+import { LayoutEditorDialog } from './LayoutEditorDialog';
+import { CellSequenceDialog } from './CellSequenceDialog';
 import { Button } from '@/components/ui/button';
 import {
   Select,
   SelectContent,
   SelectItem,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '@/components/ui/context-menu';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 
+const LIVE_BUDGET_OPTIONS = [4, 6, 9, 12, 16, 0];
+
+interface EmptyCellProps {
+  gridArea?: string;
+  onDropCamera: (cameraId: string) => void;
+  onEditSequence: () => void;
+}
+
+const EmptyCell = ({ gridArea, onDropCamera, onEditSequence }: EmptyCellProps) => {
+  const { over, dropHandlers } = useCameraDrop(onDropCamera);
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className={`grid-cell flex items-center justify-center${over ? ' drop-target' : ' opacity-50'}`}
+          style={{ gridArea }}
+          {...dropHandlers}
+        >
+          <span className="text-sm text-muted-foreground">{over ? 'Drop camera here' : 'Empty'}</span>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onClick={onEditSequence}>Camera Sequence…</ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
 interface CameraGridProps {
   cameras: Camera[];
   selectedCameraIds: string[];
@@ -22,6 +78,7 @@ interface CameraGridProps {
   onEditCamera: (camera: Camera) => void;
   onDeleteCamera: (camera: Camera) => void;
   onFocusCameraOnMap: (camera: Camera) => void;
+  onOpenCameraView: (camera: Camera) => void;
 }
 
 export const CameraGrid = ({
@@ -32,16 +89,186 @@ export const CameraGrid = ({
   onEditCamera,
   onDeleteCamera,
   onFocusCameraOnMap,
+  onOpenCameraView,
 }: CameraGridProps) => {
-  const { gridLayout, autoPlayPreview, setGridLayout, setAutoPlayPreview } =
-    useLayoutPrefs();
+  const {
+    gridLayout,
+    autoPlayPreview,
+    streamProtocol,
+    layoutProfiles,
+    maxLivePlayers,
+    pinnedCameraIds,
+    customLayouts,
+    cellCameraIds,
+    cellSequences,
+    setGridLayout,
+    setAutoPlayPreview,
+    setStreamProtocol,
+    setLayoutProfile,
+    setMaxLivePlayers,
+    togglePinnedCamera,
+    setCellCameraIds,
+    setCellSequence,
+  } = useLayoutPrefs();
+  const motionAt = useCameras((s) => s.motionAt);
+  const setSelectedCameraIds = useCameras((s) => s.setSelectedCameraIds);
+  const audibleCameraId = useAudioFocus((s) => s.audibleCameraId);
+  const setAudibleCamera = useAudioFocus((s) => s.setAudibleCamera);
+
+  const [hoveredCameraId, setHoveredCameraId] = useState<string | null>(null);
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+  const [maximizedCameraId, setMaximizedCameraId] = useState<string | null>(null);
+  const [pipCameraId, setPipCameraId] = useState<string | null>(null);
+  const [syncDialogOpen, setSyncDialogOpen] = useState(false);
+  const [layoutEditorOpen, setLayoutEditorOpen] = useState(false);
+  const [viewSettingsCamera, setViewSettingsCamera] = useState<Camera | null>(null);
+  const [sequenceCell, setSequenceCell] = useState<{ index: number; cameraId?: string } | null>(null);
+  const [syncCameraIds, setSyncCameraIds] = useState<string[] | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const layoutProfile = layoutProfiles[gridLayout] ?? DEFAULT_PLAYBACK_PROFILE;
+  const audibleCamera = cameras.find((cam) => cam.id === audibleCameraId);
+
+  const { cols, rows, tiles, label: layoutLabel } = resolveGridLayout(gridLayout, customLayouts);
+  const totalCells = tiles.length;
+
+  const activeSequences = useMemo(
+    () => resolveActiveSequences(cellSequences, totalCells),
+    [cellSequences, totalCells]
+  );
+  const sequencePositions = useCellSequences(activeSequences);
+
+  // posisi kamera mengikuti pemetaan sel tersimpan, bukan urutan daftar kamera
+  const cells = useMemo(
+    () => arrangeCells(cellCameraIds, selectedCameraIds, totalCells, Object.keys(activeSequences).map(Number)),
+    [cellCameraIds, selectedCameraIds, totalCells, activeSequences]
+  );
+  const cellCameras = useMemo(
+    () =>
+      Array.from({ length: totalCells }, (_, i) => {
+        const sequence = activeSequences[i];
+        const id = sequence ? sequence.cameraIds[sequencePositions[i]?.index ?? 0] : cells[i];
+        return cameras.find((cam) => cam.id === id);
+      }),
+    [cameras, cells, totalCells, activeSequences, sequencePositions]
+  );
+  const gridCameras = useMemo(
+    () => cellCameras.filter((cam): cam is Camera => cam !== undefined),
+    [cellCameras]
+  );
+  const maximized = Boolean(maximizedCameraId && gridCameras.some((cam) => cam.id === maximizedCameraId));
+
+  // simpan hasil sinkronisasi supaya pemetaan tetap eksplisit setelah pilih / lepas kamera
+  // (pilihan kosong = kamera belum dimuat, jangan timpa pemetaan tersimpan)
+  useEffect(() => {
+    if (selectedCameraIds.length === 0) return;
+    const changed = cells.length !== cellCameraIds.length || cells.some((id, i) => id !== cellCameraIds[i]);
+    if (changed) setCellCameraIds(cells);
+  }, [cells, cellCameraIds, selectedCameraIds, setCellCameraIds]);
+
+  // motion priority kedaluwarsa seiring waktu → hitung ulang berkala
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, []);
 
-  const selectedCameras = useMemo(() => {
-    return cameras.filter((cam) => selectedCameraIds.includes(cam.id));
-  }, [cameras, selectedCameraIds]);
+  useEffect(() => () => {
+    if (hoverTimerRef.current) clearTimeout(hoverTimerRef.current);
+  }, []);
 
-  const { cols, rows } = GRID_LAYOUTS[gridLayout];
-  const totalCells = cols * rows;
+  // Esc mengembalikan tile yang di-maximize ke grid
+  useEffect(() => {
+    if (!maximized) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setMaximizedCameraId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [maximized]);
+
+  const liveCameraIds = useMemo(
+    () =>
+      selectLiveCameras({
+        cameraIds: gridCameras.map((cam) => cam.id),
+        budget: maxLivePlayers,
+        // kamera yang sedang bersuara jangan sampai tergeser ke snapshot
+        focusedIds: [maximizedCameraId, pipCameraId, audibleCameraId, hoveredCameraId, activeCameraId].filter(
+          Boolean
+        ) as string[],
+        pinnedIds: pinnedCameraIds,
+        motionAt,
+        now,
+      }),
+    [
+      gridCameras,
+      maxLivePlayers,
+      maximizedCameraId,
+      pipCameraId,
+      audibleCameraId,
+      hoveredCameraId,
+      activeCameraId,
+      pinnedCameraIds,
+      motionAt,
+      now,
+    ]
+  );
+
+  const handleCaptureAll = async (fileFormat: SnapshotFormat) => {
+    const videos = gridRef.current?.querySelectorAll<HTMLVideoElement>('video[data-camera-id]') ?? [];
+    const entries = Array.from(videos).flatMap((video) => {
+      const camera = gridCameras.find((cam) => cam.id === video.dataset.cameraId);
+      return camera ? [{ video, camera }] : [];
+    });
+
+    const { captured, skipped } = await downloadSnapshotZip(entries, fileFormat);
+    if (captured === 0) {
+      toast.error('No playing tiles to capture');
+    } else {
+      toast.success(`Captured ${captured} snapshot${captured > 1 ? 's' : ''}`, {
+        description: skipped > 0 ? `${skipped} tile(s) without video were skipped` : undefined,
+      });
+    }
+  };
+
+  // hover baru dihitung setelah jeda, supaya mouse yang lewat tidak memicu start/stop player
+  const handleHoverChange = (camera: Camera, hovering: boolean) => {
+    if (hoverTimerRef.current) clearTimeout(hoverTimerRef.current);
+    hoverTimerRef.current = null;
+    if (!hovering) {
+      setHoveredCameraId((current) => (current === camera.id ? null : current));
+      return;
+    }
+    hoverTimerRef.current = setTimeout(() => setHoveredCameraId(camera.id), 400);
+  };
+
+  // drop dari tile lain = tukar posisi; dari daftar / peta = ganti isi sel
+  const handleDropCamera = (cameraId: string, cellIndex: number) => {
+    // drop ke sel sequence = tambahkan kamera ke giliran sel itu
+    const sequence = activeSequences[cellIndex];
+    if (sequence) {
+      if (sequence.cameraIds.includes(cameraId)) return;
+      setCellSequence(cellIndex, { ...sequence, cameraIds: [...sequence.cameraIds, cameraId] });
+      toast.success('Camera added to cell sequence');
+      return;
+    }
+    const { cells: next, replaced } = placeCamera(cells, cameraId, cellIndex);
+    setCellCameraIds(next);
+    if (!selectedCameraIds.includes(cameraId) || replaced) {
+      setSelectedCameraIds([...selectedCameraIds.filter((id) => id !== replaced && id !== cameraId), cameraId]);
+    }
+  };
+
+  const syncCameras = useMemo(
+    () => (syncCameraIds ? cameras.filter((cam) => syncCameraIds.includes(cam.id)) : []),
+    [cameras, syncCameraIds]
+  );
+
+  // mode playback arsip menggantikan grid live (tile live di-unmount → stream dilepas)
+  if (syncCameras.length > 0) {
+    return <SyncArchivePlayback cameras={syncCameras} onExit={() => setSyncCameraIds(null)} />;
+  }
 
   return (
     <div className="flex flex-col h-full">
@@ -50,6 +277,20 @@ export const CameraGrid = ({
         <div className="flex items-center gap-3">
           <Grid2x2 className="h-5 w-5 text-primary" />
           <span className="font-semibold">Camera Grid</span>
+          {audibleCamera && (
+            <span className="flex items-center gap-1.5 rounded bg-primary/10 px-2 py-1 text-xs text-primary">
+              <Volume2 className="h-3.5 w-3.5" />
+              Audio: {audibleCamera.name}
+              <button
+                type="button"
+                onClick={() => setAudibleCamera(null)}
+                className="hover:text-foreground"
+                title="Mute"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-3">
@@ -64,19 +305,100 @@ export const CameraGrid = ({
             />
           </div>
 
-          <Select value={gridLayout} onValueChange={(val) => setGridLayout(val as any)}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
+          <Select value={gridLayout} onValueChange={(val) => setGridLayout(val as GridLayout)}>
+            <SelectTrigger className="w-36">
+              <SelectValue>{layoutLabel}</SelectValue>
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="2x2">2×2</SelectItem>
-              <SelectItem value="4x4">4×4</SelectItem>
-              <SelectItem value="2x4">2×4</SelectItem>
-              <SelectItem value="6x4">6×4</SelectItem>
-              <SelectItem value="3x6">3×6</SelectItem>
+              {(Object.keys(GRID_LAYOUTS) as PresetGridLayout[]).map((layout) => (
+                <SelectItem key={layout} value={layout}>
+                  {layout.replace('x', '×')}
+                </SelectItem>
+              ))}
+              {customLayouts.length > 0 && <SelectSeparator />}
+              {customLayouts.map((layout) => (
+                <SelectItem key={layout.id} value={layout.id}>
+                  {layout.name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-9 w-9"
+            title="Edit layouts"
+            onClick={() => setLayoutEditorOpen(true)}
+          >
+            <LayoutTemplate className="h-4 w-4" />
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CameraIcon className="h-4 w-4 mr-2" />
+                Capture All
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleCaptureAll('png')}>ZIP of PNG snapshots</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleCaptureAll('jpeg')}>ZIP of JPEG snapshots</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Playback
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+              <DropdownMenuLabel>Stream Protocol</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={streamProtocol}
+                onValueChange={(val) => setStreamProtocol(val as StreamProtocolPreference)}
+              >
+                <DropdownMenuRadioItem value="hls">HLS</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="webrtc">WebRTC</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="auto">Auto (WebRTC → HLS)</DropdownMenuRadioItem>
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Profile for {layoutLabel} layout</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={layoutProfile}
+                onValueChange={(val) => setLayoutProfile(gridLayout, val as PlaybackProfileId)}
+              >
+                {Object.entries(PLAYBACK_PROFILES).map(([id, profile]) => (
+                  <DropdownMenuRadioItem key={id} value={id}>
+                    <div className="flex flex-col">
+                      <span>{profile.label}</span>
+                      <span className="text-xs text-muted-foreground">{profile.description}</span>
+                    </div>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Live players</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(maxLivePlayers)}
+                onValueChange={(val) => setMaxLivePlayers(Number(val))}
+              >
+                {LIVE_BUDGET_OPTIONS.map((value) => (
+                  <DropdownMenuRadioItem key={value} value={String(value)}>
+                    {value === 0 ? 'Unlimited' : `${value} live tiles`}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" size="sm" onClick={() => setSyncDialogOpen(true)}>
+            <History className="h-4 w-4 mr-2" />
+            Sync Playback
+          </Button>
+
           <Button variant="outline" size="sm" onClick={onSelectCameras}>
             <Settings className="h-4 w-4 mr-2" />
             Select Cameras
@@ -92,39 +414,94 @@ export const CameraGrid = ({
       {/* Grid */}
       <div className="flex-1 p-4 overflow-auto">
         <div
+          ref={gridRef}
           className="grid gap-4 h-full"
           style={{
-            gridTemplateColumns: `repeat(${cols}, 1fr)`,
-            gridTemplateRows: `repeat(${rows}, 1fr)`,
+            gridTemplateColumns: maximized ? '1fr' : `repeat(${cols}, 1fr)`,
+            gridTemplateRows: maximized ? '1fr' : `repeat(${rows}, 1fr)`,
           }}
         >
-          {Array.from({ length: totalCells }).map((_, index) => {
-            const camera = selectedCameras[index];
+          {tiles.map((tile, index) => {
+            const camera = cellCameras[index];
+            const gridArea = maximized ? undefined : tileGridArea(tile);
+
+            // tile lain tidak dirender selama ada yang di-maximize (key tetap → player tidak restart)
+            if (maximized && camera?.id !== maximizedCameraId) return null;
 
             if (!camera) {
               return (
-                <div
+                <EmptyCell
                   key={`empty-${index}`}
-                  className="grid-cell flex items-center justify-center opacity-50"
-                >
-                  <span className="text-sm text-muted-foreground">Empty</span>
-                </div>
+                  gridArea={gridArea}
+                  onDropCamera={(cameraId) => handleDropCamera(cameraId, index)}
+                  onEditSequence={() => setSequenceCell({ index })}
+                />
               );
             }
 
+            const sequence = activeSequences[index];
+            const position = sequencePositions[index];
+
             return (
               <CameraCard
-                key={camera.id}
+                // kamera yang sama boleh muncul di sel tetap dan di sequence
+                key={sequence ? `seq-${index}-${camera.id}` : camera.id}
                 camera={camera}
+                gridArea={gridArea}
+                sequence={
+                  sequence && position
+                    ? {
+                        position: position.index,
+                        length: sequence.cameraIds.length,
+                        dwellSeconds: sequence.dwellSeconds,
+                        startedAt: position.startedAt,
+                      }
+                    : undefined
+                }
+                onDropCamera={(cameraId) => handleDropCamera(cameraId, index)}
+                onEditSequence={(cam) => setSequenceCell({ index, cameraId: cam.id })}
                 autoPlay={autoPlayPreview}
+                live={liveCameraIds.has(camera.id)}
+                pinned={pinnedCameraIds.includes(camera.id)}
+                maximized={maximized}
+                playbackProfile={layoutProfile}
+                onTogglePin={(cam) => togglePinnedCamera(cam.id)}
+                onToggleMaximize={(cam) =>
+                  setMaximizedCameraId((current) => (current === cam.id ? null : cam.id))
+                }
+                onHoverChange={handleHoverChange}
+                onActivate={(cam) => setActiveCameraId(cam.id)}
                 onEdit={onEditCamera}
                 onDelete={onDeleteCamera}
                 onFocusOnMap={onFocusCameraOnMap}
+                onOpenView={onOpenCameraView}
+                onEditView={setViewSettingsCamera}
+                onPictureInPictureChange={(cam, active) =>
+                  setPipCameraId((current) => (active ? cam.id : current === cam.id ? null : current))
+                }
               />
             );
           })}
         </div>
       </div>
+
+      <LayoutEditorDialog open={layoutEditorOpen} onClose={() => setLayoutEditorOpen(false)} />
+
+      <ViewSettingsDialog camera={viewSettingsCamera} onClose={() => setViewSettingsCamera(null)} />
+
+      <CellSequenceDialog
+        cellIndex={sequenceCell?.index ?? null}
+        initialCameraId={sequenceCell?.cameraId}
+        cameras={cameras}
+        onClose={() => setSequenceCell(null)}
+      />
+
+      <SyncPlaybackDialog
+        open={syncDialogOpen}
+        cameras={cameras}
+        onClose={() => setSyncDialogOpen(false)}
+        onStart={setSyncCameraIds}
+      />
     </div>
   );
 };
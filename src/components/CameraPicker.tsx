@@ -13,6 +13,7 @@ import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { setCameraDragData } from '@/lib/cameraDrag';
 
 interface CameraPickerProps {
   open: boolean;
@@ -104,13 +105,14 @@ export const CameraPicker = ({
     };
   }, [cameras]);
 
+  // non-modal: grid di belakang tetap bisa menerima drop kamera dari daftar
   return (
-    <Sheet open={open} onOpenChange={onClose}>
+    <Sheet open={open} onOpenChange={onClose} modal={false}>
       <SheetContent side="right" className="w-[500px] sm:max-w-[500px]">
         <SheetHeader>
           <SheetTitle>Select Cameras</SheetTitle>
           <SheetDescription>
-            Choose which cameras to display in the grid
+            Choose which cameras to display in the grid, or drag one onto a grid cell
           </SheetDescription>
         </SheetHeader>
 
@@ -191,6 +193,8 @@ export const CameraPicker = ({
                     key={camera.id}
                     className="flex items-start gap-3 p-3 rounded-lg border border-border hover:bg-accent/50 cursor-pointer transition-colors"
                     onClick={() => handleToggle(camera.id)}
+                    draggable
+                    onDragStart={(e) => setCameraDragData(e.dataTransfer, camera.id)}
                   >
                     <Checkbox
                       checked={tempSelected.has(camera.id)}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Camera } from '@/types/camera';
+import { CellSequence, SEQUENCE_DWELL_OPTIONS } from '@/lib/cellAssignments';
+import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface CellSequenceDialogProps {
+  cellIndex: number | null;
+  initialCameraId?: string; // kamera yang sedang tampil, jadi anggota pertama sequence baru
+  cameras: Camera[];
+  onClose: () => void;
+}
+
+const DEFAULT_DWELL = 10;
+
+// Editor daftar kamera yang bergiliran di satu sel grid
+export const CellSequenceDialog = ({ cellIndex, initialCameraId, cameras, onClose }: CellSequenceDialogProps) => {
+  const { cellSequences, setCellSequence } = useLayoutPrefs();
+  const [draft, setDraft] = useState<CellSequence>({ cameraIds: [], dwellSeconds: DEFAULT_DWELL });
+  const existing = cellIndex !== null ? cellSequences[cellIndex] : undefined;
+
+  useEffect(() => {
+    if (cellIndex === null) return;
+    setDraft(
+      existing ?? { cameraIds: initialCameraId ? [initialCameraId] : [], dwellSeconds: DEFAULT_DWELL }
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cellIndex]);
+
+  const cameraName = (id: string) => cameras.find((cam) => cam.id === id)?.name ?? id;
+  const available = cameras.filter((cam) => !draft.cameraIds.includes(cam.id));
+
+  const move = (from: number, to: number) => {
+    setDraft((current) => {
+      const cameraIds = [...current.cameraIds];
+      [cameraIds[from], cameraIds[to]] = [cameraIds[to], cameraIds[from]];
+      return { ...current, cameraIds };
+    });
+  };
+
+  const remove = (id: string) => {
+    setDraft((current) => ({ ...current, cameraIds: current.cameraIds.filter((item) => item !== id) }));
+  };
+
+  const handleSave = () => {
+    if (cellIndex === null) return;
+    if (draft.cameraIds.length < 2) {
+      toast.error('A sequence needs at least two cameras');
+      return;
+    }
+    setCellSequence(cellIndex, draft);
+    toast.success(`Cell ${cellIndex + 1} sequence saved`);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (cellIndex === null) return;
+    setCellSequence(cellIndex, null);
+    toast.success(`Cell ${cellIndex + 1} sequence removed`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={cellIndex !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Cell {cellIndex !== null ? cellIndex + 1 : ''} Sequence</DialogTitle>
+          <DialogDescription>
+            This cell cycles through the cameras below; the rest of the grid stays fixed
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            <Label>Dwell time</Label>
+            <Select
+              value={String(draft.dwellSeconds)}
+              onValueChange={(val) => setDraft((current) => ({ ...current, dwellSeconds: Number(val) }))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEQUENCE_DWELL_OPTIONS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds} s
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Cameras ({draft.cameraIds.length})</Label>
+            <ScrollArea className="h-48 rounded border border-border">
+              {draft.cameraIds.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">No cameras yet</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {draft.cameraIds.map((id, index) => (
+                    <div key={id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                      <span className="w-5 text-xs text-muted-foreground">{index + 1}</span>
+                      <span className="flex-1 truncate">{cameraName(id)}</span>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => move(index, index - 1)}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={index === draft.cameraIds.length - 1}
+                        onClick={() => move(index, index + 1)}
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => remove(id)}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <Select
+              value=""
+              onValueChange={(id) => setDraft((current) => ({ ...current, cameraIds: [...current.cameraIds, id] }))}
+              disabled={available.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Add camera…" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((cam) => (
+                  <SelectItem key={cam.id} value={cam.id}>
+                    {cam.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">You can also drop cameras onto the cell to add them</p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {existing && (
+            <Button variant="outline" className="mr-auto text-destructive" onClick={handleRemove}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove Sequence
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
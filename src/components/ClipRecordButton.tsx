@@ -0,0 +1,64 @@
+import { Circle, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ClipRecordButtonProps {
+  recording: boolean;
+  elapsed: number;
+  maxSeconds: number;
+  disabled?: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  className?: string;
+}
+
+const formatClock = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const ClipRecordButton = ({
+  recording,
+  elapsed,
+  maxSeconds,
+  disabled,
+  onStart,
+  onStop,
+  className,
+}: ClipRecordButtonProps) => {
+  if (recording) {
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onStop();
+        }}
+        className={cn(
+          'flex items-center gap-1.5 bg-destructive/90 text-destructive-foreground px-2 py-1 rounded text-xs font-mono',
+          className
+        )}
+        title="Stop recording"
+      >
+        <Square className="h-3 w-3 fill-current" />
+        {formatClock(elapsed)} / {formatClock(maxSeconds)}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={(e) => {
+        e.stopPropagation();
+        onStart();
+      }}
+      className={cn(
+        'flex items-center gap-1.5 bg-card/80 backdrop-blur px-2 py-1 rounded text-xs disabled:opacity-50',
+        className
+      )}
+      title="Record clip"
+    >
+      <Circle className="h-3 w-3 fill-destructive text-destructive" />
+      REC
+    </button>
+  );
+};
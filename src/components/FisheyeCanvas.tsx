@@ -0,0 +1,119 @@
+import { PointerEvent, RefObject, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_PERSPECTIVE,
+  DewarpMode,
+  FisheyeRenderer,
+  PerspectiveView,
+  clampPerspective,
+  dragPerspective,
+} from '@/lib/fisheyeDewarp';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+
+interface FisheyeCanvasProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  mode: Exclude<DewarpMode, 'original'>;
+  filter?: string;   // penyesuaian gambar (brightness dll.) dari view settings
+  className?: string;
+}
+
+const WHEEL_FOV_STEP = 0.001;
+
+// Tampilan dewarp di atas elemen video; mode perspective bisa di-drag (virtual PTZ)
+export const FisheyeCanvas = ({ videoRef, mode, filter, className }: FisheyeCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<FisheyeRenderer | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const viewRef = useRef<PerspectiveView>(DEFAULT_PERSPECTIVE);
+  const [error, setError] = useState<string | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+    try {
+      const renderer = new FisheyeRenderer(canvas, video, (err) => {
+        console.error('Fisheye render failed:', err);
+        setError(err.message);
+      });
+      renderer.setView(viewRef.current);
+      rendererRef.current = renderer;
+    } catch (err) {
+      console.error('Fisheye renderer failed:', err);
+      setError(err instanceof Error ? err.message : 'Dewarp unavailable');
+    }
+    return () => {
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    rendererRef.current?.setMode(mode);
+  }, [mode]);
+
+  const updateView = (view: PerspectiveView) => {
+    viewRef.current = view;
+    rendererRef.current?.setView(view);
+  };
+
+  // wheel = ubah FOV; listener native karena React memasang wheel sebagai passive
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || mode !== 'perspective') return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const view = viewRef.current;
+      viewRef.current = clampPerspective({ ...view, fov: view.fov * Math.exp(e.deltaY * WHEEL_FOV_STEP) });
+      rendererRef.current?.setView(viewRef.current);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [mode]);
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (mode !== 'perspective' || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    updateView(dragPerspective(viewRef.current, e.clientX - last.x, e.clientY - last.y, rect.width, rect.height));
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={cn(
+          'absolute inset-0 w-full h-full bg-black',
+          mode === 'perspective' && 'cursor-grab active:cursor-grabbing touch-none',
+          showOriginal && 'hidden',
+          className
+        )}
+        style={filter ? { filter } : undefined}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      {error && !showOriginal && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/70 text-xs text-muted-foreground">
+          <span>Dewarp unavailable: {error}</span>
+          <Button size="sm" variant="secondary" onClick={() => setShowOriginal(true)}>
+            Show original video
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,147 @@
+import { Pause, Play, Route, SkipBack, SkipForward, Square } from 'lucide-react';
+import { TOUR_DWELL_OPTIONS } from '@/lib/guardTour';
+import { useGuardTourRunner } from '@/hooks/use-guard-tour';
+import { TourPauseReason, TourSource, useGuardTour } from '@/state/useGuardTour';
+import { useSavedViews } from '@/state/useSavedViews';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const PAUSE_LABELS: Record<TourPauseReason, string> = {
+  manual: 'Paused',
+  interaction: 'Paused while you work',
+  alarm: 'Paused by alarm',
+};
+
+// Pengaturan + indikator guard tour di status bar dashboard
+export const GuardTourControls = () => {
+  const {
+    source,
+    dwellSeconds,
+    viewIds,
+    running,
+    step,
+    pauseReason,
+    setSource,
+    setDwellSeconds,
+    toggleViewId,
+    pause,
+    resume,
+  } = useGuardTour();
+  const views = useSavedViews((s) => s.views);
+  const tour = useGuardTourRunner();
+
+  if (!running) {
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <Route className="h-4 w-4 mr-2" />
+            Guard Tour
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side="top" className="w-72 space-y-4">
+          <div className="grid gap-2">
+            <Label>Cycle through</Label>
+            <Select value={source} onValueChange={(val) => setSource(val as TourSource)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pages">Camera pages</SelectItem>
+                <SelectItem value="views">Saved views</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Dwell time</Label>
+            <Select value={String(dwellSeconds)} onValueChange={(val) => setDwellSeconds(Number(val))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TOUR_DWELL_OPTIONS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds < 60 ? `${seconds} s` : `${seconds / 60} min`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {source === 'views' && (
+            <div className="grid gap-2">
+              <Label>Views (none checked = all)</Label>
+              {views.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No saved views yet</p>
+              ) : (
+                views.map((view) => (
+                  <label key={view.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={viewIds.includes(view.id)} onCheckedChange={() => toggleViewId(view.id)} />
+                    <span className="truncate">{view.name}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          )}
+
+          <Button className="w-full" disabled={tour.stepCount === 0} onClick={tour.start}>
+            <Play className="h-4 w-4 mr-2" />
+            Start Tour
+          </Button>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1" data-guard-tour>
+      <div className="relative flex items-center gap-2 overflow-hidden rounded bg-primary/10 px-2 py-1 text-xs text-primary">
+        <Route className="h-3.5 w-3.5" />
+        <span className="max-w-40 truncate font-medium">{tour.stepLabel}</span>
+        <span className="text-muted-foreground">
+          {step + 1}/{tour.stepCount}
+        </span>
+        {pauseReason && (
+          <span className={pauseReason === 'alarm' ? 'text-destructive' : 'text-muted-foreground'}>
+            • {PAUSE_LABELS[pauseReason]}
+          </span>
+        )}
+        {tour.timerStartedAt && (
+          <div
+            key={tour.timerStartedAt}
+            className="dwell-progress absolute inset-x-0 bottom-0 h-0.5 bg-primary"
+            style={{ animationDuration: `${dwellSeconds}s` }}
+          />
+        )}
+      </div>
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Previous" onClick={tour.previous}>
+        <SkipBack className="h-4 w-4" />
+      </Button>
+      {pauseReason ? (
+        <Button size="icon" variant="ghost" className="h-8 w-8" title="Resume" onClick={resume}>
+          <Play className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Button size="icon" variant="ghost" className="h-8 w-8" title="Pause" onClick={() => pause('manual')}>
+          <Pause className="h-4 w-4" />
+        </Button>
+      )}
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Next" onClick={tour.next}>
+        <SkipForward className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Stop tour" onClick={tour.stop}>
+        <Square className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Combine, RotateCcw, Trash2, Ungroup } from 'lucide-react';
+import { toast } from 'sonner';
+import { CustomGridLayout, GridTile } from '@/types/camera';
+import {
+  MAX_GRID_SIZE,
+  createCustomLayoutId,
+  mergeTiles,
+  splitTile,
+  tileGridArea,
+  uniformTiles,
+} from '@/lib/gridLayouts';
+import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface LayoutEditorDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const NEW_LAYOUT = 'new';
+const DEFAULT_SIZE = 4;
+
+interface Draft {
+  id: CustomGridLayout['id'] | null; // null = layout baru
+  name: string;
+  cols: number;
+  rows: number;
+  tiles: GridTile[];
+}
+
+const newDraft = (): Draft => ({
+  id: null,
+  name: '',
+  cols: DEFAULT_SIZE,
+  rows: DEFAULT_SIZE,
+  tiles: uniformTiles(DEFAULT_SIZE, DEFAULT_SIZE),
+});
+
+const toDraft = (layout: CustomGridLayout): Draft => ({ ...layout, tiles: [...layout.tiles] });
+
+const clampSize = (value: number) => Math.min(MAX_GRID_SIZE, Math.max(1, Math.round(value) || 1));
+
+// Editor layout custom: tentukan kolom × baris lalu gabungkan sel menjadi tile besar
+export const LayoutEditorDialog = ({ open, onClose }: LayoutEditorDialogProps) => {
+  const { gridLayout, customLayouts, setGridLayout, saveCustomLayout, deleteCustomLayout } = useLayoutPrefs();
+  const [draft, setDraft] = useState<Draft>(newDraft);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  // buka dialog → edit layout custom yang sedang dipakai, kalau ada
+  useEffect(() => {
+    if (!open) return;
+    const current = customLayouts.find((item) => item.id === gridLayout);
+    setDraft(current ? toDraft(current) : newDraft());
+    setSelected([]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const merged = mergeTiles(draft.tiles, selected);
+  const single = selected.length === 1 ? draft.tiles[selected[0]] : null;
+  const splittable = Boolean(single && (single.colSpan > 1 || single.rowSpan > 1));
+
+  const updateTiles = (tiles: GridTile[]) => {
+    setDraft((current) => ({ ...current, tiles }));
+    setSelected([]);
+  };
+
+  const handleResize = (cols: number, rows: number) => {
+    setDraft((current) => ({ ...current, cols, rows, tiles: uniformTiles(cols, rows) }));
+    setSelected([]);
+  };
+
+  const handlePick = (value: string) => {
+    const layout = customLayouts.find((item) => item.id === value);
+    setDraft(layout ? toDraft(layout) : newDraft());
+    setSelected([]);
+  };
+
+  const toggleTile = (index: number) => {
+    setSelected((current) =>
+      current.includes(index) ? current.filter((item) => item !== index) : [...current, index]
+    );
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      toast.error('Layout name is required');
+      return;
+    }
+    const layout: CustomGridLayout = {
+      id: draft.id ?? createCustomLayoutId(),
+      name,
+      cols: draft.cols,
+      rows: draft.rows,
+      tiles: draft.tiles,
+    };
+    saveCustomLayout(layout);
+    setGridLayout(layout.id);
+    toast.success(`Layout "${name}" saved`);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!draft.id) return;
+    deleteCustomLayout(draft.id);
+    toast.success(`Layout "${draft.name}" deleted`);
+    setDraft(newDraft());
+    setSelected([]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Custom Layouts</DialogTitle>
+          <DialogDescription>
+            Pick a grid size, then select adjacent cells and merge them into larger tiles
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Layout</Label>
+              <Select value={draft.id ?? NEW_LAYOUT} onValueChange={handlePick}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_LAYOUT}>New layout</SelectItem>
+                  {customLayouts.map((layout) => (
+                    <SelectItem key={layout.id} value={layout.id}>
+                      {layout.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="layoutName">Name</Label>
+              <Input
+                id="layoutName"
+                value={draft.name}
+                onChange={(e) => setDraft((current) => ({ ...current, name: e.target.value }))}
+                placeholder="1 + 7 lobby"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="layoutCols">Columns</Label>
+              <Input
+                id="layoutCols"
+                type="number"
+                min={1}
+                max={MAX_GRID_SIZE}
+                value={draft.cols}
+                onChange={(e) => handleResize(clampSize(Number(e.target.value)), draft.rows)}
+                className="w-24"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="layoutRows">Rows</Label>
+              <Input
+                id="layoutRows"
+                type="number"
+                min={1}
+                max={MAX_GRID_SIZE}
+                value={draft.rows}
+                onChange={(e) => handleResize(draft.cols, clampSize(Number(e.target.value)))}
+                className="w-24"
+              />
+            </div>
+
+            <div className="ml-auto flex gap-2">
+              <Button size="sm" variant="outline" disabled={!merged} onClick={() => merged && updateTiles(merged)}>
+                <Combine className="h-4 w-4 mr-2" />
+                Merge
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!splittable}
+                onClick={() => updateTiles(splitTile(draft.tiles, selected[0]))}
+              >
+                <Ungroup className="h-4 w-4 mr-2" />
+                Split
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleResize(draft.cols, draft.rows)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            </div>
+          </div>
+
+          <div
+            className="grid aspect-video gap-1 rounded border border-border bg-muted/30 p-1"
+            style={{
+              gridTemplateColumns: `repeat(${draft.cols}, 1fr)`,
+              gridTemplateRows: `repeat(${draft.rows}, 1fr)`,
+            }}
+          >
+            {draft.tiles.map((tile, index) => (
+              <button
+                key={`${tile.col}-${tile.row}`}
+                type="button"
+                onClick={() => toggleTile(index)}
+                className={cn(
+                  'flex items-center justify-center rounded border text-xs font-medium transition-colors',
+                  selected.includes(index)
+                    ? 'border-primary bg-primary/20 text-primary'
+                    : 'border-border bg-card hover:border-primary/60'
+                )}
+                style={{ gridArea: tileGridArea(tile) }}
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {draft.tiles.length} tiles • drag cameras onto tiles in the grid to arrange them
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {draft.id && (
+            <Button variant="outline" className="mr-auto text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save &amp; Use</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
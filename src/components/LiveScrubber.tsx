@@ -0,0 +1,92 @@
+import { RefObject, useEffect, useState } from 'react';
+import { Radio, RotateCcw } from 'lucide-react';
+import { LiveWindow } from '@/lib/streamPlayer';
+import { CameraStreamPlayer } from '@/lib/cameraStreamPlayer';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+
+interface LiveScrubberProps {
+  playerRef: RefObject<CameraStreamPlayer | null>;
+  className?: string;
+}
+
+const POLL_INTERVAL = 500;
+const LIVE_TOLERANCE = 2; // detik; jitter di sekitar live edge tetap dianggap live
+
+export const LiveScrubber = ({ playerRef, className }: LiveScrubberProps) => {
+  const [liveWindow, setLiveWindow] = useState<LiveWindow | null>(null);
+  const [dragOffset, setDragOffset] = useState<number | null>(null);
+
+  useEffect(() => {
+    const poll = () => setLiveWindow(playerRef.current?.getLiveWindow() ?? null);
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [playerRef]);
+
+  // WebRTC / belum ada playlist → tidak ada yang bisa di-rewind
+  if (!liveWindow) return null;
+
+  const { start, liveEdge, position } = liveWindow;
+  const behind = Math.max(0, liveEdge - position);
+  const atLive = behind < LIVE_TOLERANCE;
+  const offset = dragOffset ?? -behind;
+
+  const seekBy = (seconds: number) => {
+    playerRef.current?.seekBy(seconds);
+    setLiveWindow(playerRef.current?.getLiveWindow() ?? null);
+  };
+
+  const seekToLive = () => {
+    playerRef.current?.seekToLive();
+    setLiveWindow(playerRef.current?.getLiveWindow() ?? null);
+  };
+
+  return (
+    <div
+      data-zoom-ignore
+      className={cn('flex items-center gap-2 bg-card/80 backdrop-blur rounded px-2 py-1 text-xs', className)}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => seekBy(-30)}>
+        -30s
+      </Button>
+      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => seekBy(-10)}>
+        -10s
+      </Button>
+
+      <Slider
+        className="flex-1 min-w-24"
+        min={Math.min(-1, start - liveEdge)}
+        max={0}
+        step={0.5}
+        value={[offset]}
+        onValueChange={([value]) => setDragOffset(value)}
+        onValueCommit={([value]) => {
+          setDragOffset(null);
+          if (value >= -LIVE_TOLERANCE) seekToLive();
+          else seekBy(value + behind);
+        }}
+      />
+
+      {atLive ? (
+        <span className="flex items-center gap-1 rounded bg-destructive px-1.5 py-0.5 font-semibold text-destructive-foreground">
+          <Radio className="h-3 w-3" />
+          LIVE
+        </span>
+      ) : (
+        <>
+          <span className="whitespace-nowrap font-mono text-muted-foreground">
+            behind live by {Math.round(behind)}s
+          </span>
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={seekToLive}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Live
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { PlayerState } from '@/lib/playerEvents';
+import { Button } from '@/components/ui/button';
+
+interface PlayerStateOverlayProps {
+  state: PlayerState;
+  failureDetail?: string;
+  onRetry: () => void;
+}
+
+export const PlayerStateOverlay = ({ state, failureDetail, onRetry }: PlayerStateOverlayProps) => {
+  if (state === 'loading' || state === 'buffering') {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (state === 'stalled' || state === 'recovering') {
+    return (
+      <div className="absolute bottom-2 right-2 z-10 flex items-center gap-1.5 bg-card/80 backdrop-blur px-2 py-1 rounded text-xs font-medium text-status-warning">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Reconnecting
+      </div>
+    );
+  }
+
+  if (state === 'failed') {
+    return (
+      <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 bg-background/70">
+        <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          Stream failed
+        </div>
+        {failureDetail && (
+          <span className="text-xs text-muted-foreground">{failureDetail}</span>
+        )}
+        <Button size="sm" variant="outline" onClick={onRetry}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return null;
+};
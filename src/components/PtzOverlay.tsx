@@ -0,0 +1,158 @@
+import { PointerEvent, useRef, useState } from 'react';
+import { Bookmark, Minus, Plus } from 'lucide-react';
+import { PtzPreset, PtzVelocity } from '@/types/camera';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+interface PtzOverlayProps {
+  presets: PtzPreset[];
+  onMove: (velocity: PtzVelocity) => void;
+  onStop: () => void;
+  onZoom: (speed: number) => void;
+  onGotoPreset: (presetId: string) => void;
+  onSavePreset: (name: string) => void;
+  compact?: boolean;
+  className?: string;
+}
+
+const ZOOM_SPEED = 0.5;
+
+// Joystick virtual: jarak dari tengah = kecepatan, lepas = stop
+const Joystick = ({ size, onMove, onStop }: { size: number } & Pick<PtzOverlayProps, 'onMove' | 'onStop'>) => {
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const activeRef = useRef(false);
+  const radius = size / 2;
+
+  const update = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    let dx = (e.clientX - rect.left - radius) / radius;
+    let dy = (e.clientY - rect.top - radius) / radius;
+    const length = Math.hypot(dx, dy);
+    if (length > 1) {
+      dx /= length;
+      dy /= length;
+    }
+    setKnob({ x: dx, y: dy });
+    onMove({ pan: Math.round(dx * 100) / 100, tilt: Math.round(-dy * 100) / 100 });
+  };
+
+  const release = () => {
+    if (!activeRef.current) return;
+    activeRef.current = false;
+    setKnob({ x: 0, y: 0 });
+    onStop();
+  };
+
+  return (
+    <div
+      className="relative rounded-full border border-border bg-background/60 touch-none cursor-grab"
+      style={{ width: size, height: size }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        activeRef.current = true;
+        update(e);
+      }}
+      onPointerMove={(e) => activeRef.current && update(e)}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onLostPointerCapture={release}
+    >
+      <div
+        className="absolute h-1/3 w-1/3 rounded-full bg-primary shadow pointer-events-none"
+        style={{
+          left: `${(knob.x * 0.5 + 0.5) * 100}%`,
+          top: `${(knob.y * 0.5 + 0.5) * 100}%`,
+          transform: 'translate(-50%, -50%)',
+        }}
+      />
+    </div>
+  );
+};
+
+export const PtzOverlay = ({
+  presets,
+  onMove,
+  onStop,
+  onZoom,
+  onGotoPreset,
+  onSavePreset,
+  compact = false,
+  className,
+}: PtzOverlayProps) => {
+  const [presetName, setPresetName] = useState('');
+
+  const holdZoom = (speed: number) => ({
+    onPointerDown: () => onZoom(speed),
+    onPointerUp: () => onZoom(0),
+    onPointerLeave: () => onZoom(0),
+  });
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onSavePreset(name);
+    setPresetName('');
+  };
+
+  return (
+    <div
+      data-zoom-ignore
+      className={cn('flex items-end gap-2 rounded-lg bg-card/80 backdrop-blur p-2', className)}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <Joystick size={compact ? 72 : 112} onMove={onMove} onStop={onStop} />
+
+      <div className="flex flex-col gap-1">
+        <Button size="icon" variant="outline" className="h-8 w-8" title="Zoom in" {...holdZoom(ZOOM_SPEED)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="outline" className="h-8 w-8" title="Zoom out" {...holdZoom(-ZOOM_SPEED)}>
+          <Minus className="h-4 w-4" />
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="icon" variant="outline" className="h-8 w-8" title="Presets">
+              <Bookmark className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel>Presets</DropdownMenuLabel>
+            {presets.length === 0 && (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground">No presets saved</div>
+            )}
+            {presets.map((preset) => (
+              <DropdownMenuItem key={preset.id} onClick={() => onGotoPreset(preset.id)}>
+                {preset.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <div className="flex items-center gap-1 p-1" onKeyDown={(e) => e.stopPropagation()}>
+              <Input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                placeholder="Save current as…"
+                className="h-8 text-xs"
+              />
+              <Button size="sm" className="h-8" disabled={!presetName.trim()} onClick={handleSavePreset}>
+                Save
+              </Button>
+            </div>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { CSSProperties, useEffect, useState } from 'react';
+
+interface RefreshingSnapshotProps {
+  src: string;
+  alt: string;
+  intervalMs?: number;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const withCacheBuster = (src: string, ts: number) =>
+  `${src}${src.includes('?') ? '&' : '?'}_t=${ts}`;
+
+// Snapshot JPEG yang di-refresh berkala, pengganti video live untuk tile di luar budget
+export const RefreshingSnapshot = ({ src, alt, intervalMs = 5000, className, style }: RefreshingSnapshotProps) => {
+  const [ts, setTs] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setTs(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return <img src={withCacheBuster(src, ts)} alt={alt} className={className} style={style} />;
+};
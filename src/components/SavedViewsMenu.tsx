@@ -0,0 +1,185 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { BookmarkPlus, ChevronDown, Copy, Pencil, Save, Trash2, MonitorPlay } from 'lucide-react';
+import { toast } from 'sonner';
+import { isEditableTarget } from '@/lib/keyboard';
+import { captureLayoutSnapshot } from '@/state/useLayoutPrefs';
+import { SavedView, applySavedView, useSavedViews } from '@/state/useSavedViews';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+const MAX_HOTKEY_VIEWS = 9; // tombol 1–9
+
+type NameDialog = { mode: 'create' } | { mode: 'rename'; view: SavedView } | null;
+
+// Dropdown saved view di header dashboard; tombol angka 1–9 pindah view langsung
+export const SavedViewsMenu = () => {
+  const { views, activeViewId, createView, updateView, duplicateView, deleteView } = useSavedViews();
+  const [nameDialog, setNameDialog] = useState<NameDialog>(null);
+  const [name, setName] = useState('');
+
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      const index = Number(e.key) - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= MAX_HOTKEY_VIEWS) return;
+      const view = views[index];
+      if (!view) return;
+      applySavedView(view);
+      toast.info(`View: ${view.name}`);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [views]);
+
+  const openNameDialog = (dialog: Exclude<NameDialog, null>) => {
+    setName(dialog.mode === 'rename' ? dialog.view.name : '');
+    setNameDialog(dialog);
+  };
+
+  const handleNameSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || !nameDialog) return;
+    if (nameDialog.mode === 'create') {
+      createView(trimmed, captureLayoutSnapshot());
+      toast.success(`View "${trimmed}" saved`);
+    } else {
+      updateView(nameDialog.view.id, { name: trimmed });
+    }
+    setNameDialog(null);
+  };
+
+  const handleUpdate = (view: SavedView) => {
+    updateView(view.id, captureLayoutSnapshot());
+    toast.success(`View "${view.name}" updated`);
+  };
+
+  const handleDuplicate = (view: SavedView) => {
+    const copy = duplicateView(view.id);
+    if (copy) applySavedView(copy);
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!confirm(`Delete view "${view.name}"?`)) return;
+    deleteView(view.id);
+    toast.success(`View "${view.name}" deleted`);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-48">
+            <MonitorPlay className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{activeView?.name ?? 'Views'}</span>
+            <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved Views</DropdownMenuLabel>
+          {views.length === 0 ? (
+            <DropdownMenuItem disabled className="text-xs">
+              No saved views yet
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuRadioGroup
+              value={activeViewId ?? ''}
+              onValueChange={(id) => {
+                const view = views.find((item) => item.id === id);
+                if (view) applySavedView(view);
+              }}
+            >
+              {views.map((view, index) => (
+                <DropdownMenuRadioItem key={view.id} value={view.id}>
+                  <span className="truncate">{view.name}</span>
+                  {index < MAX_HOTKEY_VIEWS && <DropdownMenuShortcut>{index + 1}</DropdownMenuShortcut>}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openNameDialog({ mode: 'create' })}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save as New View…
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem onClick={() => handleUpdate(activeView)}>
+                <Save className="h-4 w-4 mr-2" />
+                Update "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openNameDialog({ mode: 'rename', view: activeView })}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename…
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDuplicate(activeView)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleDelete(activeView)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <form onSubmit={handleNameSubmit}>
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename View' : 'Save View'}</DialogTitle>
+              <DialogDescription>
+                Saves the grid layout, camera per cell, split ratio and map position
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="viewName">Name</Label>
+              <Input
+                id="viewName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Night shift - perimeter"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,48 @@
+import { StreamStats } from '@/lib/streamPlayer';
+
+interface StreamStatsOverlayProps {
+  stats: StreamStats | null;
+}
+
+const formatBitrate = (bps: number) => {
+  if (!bps) return '-';
+  if (bps >= 1_000_000) return `${(bps / 1_000_000).toFixed(2)} Mbps`;
+  return `${Math.round(bps / 1000)} kbps`;
+};
+
+const formatSeconds = (value: number | null) =>
+  value === null || Number.isNaN(value) ? '-' : `${value.toFixed(1)} s`;
+
+export const StreamStatsOverlay = ({ stats }: StreamStatsOverlayProps) => {
+  if (!stats) return null;
+
+  const rows: [string, string][] = [
+    ['Protocol', stats.protocol === 'webrtc' ? 'WebRTC' : 'HLS'],
+    ['Level', stats.level >= 0 ? `#${stats.level}` : 'auto'],
+    ['Resolution', stats.width && stats.height ? `${stats.width}×${stats.height}` : '-'],
+    ['Bitrate', formatBitrate(stats.bitrate)],
+    ['Bandwidth', formatBitrate(stats.bandwidthEstimate)],
+    ['Buffer', formatSeconds(stats.bufferLength)],
+    ['Latency', formatSeconds(stats.latency)],
+    ['Dropped frames', `${stats.droppedFrames} / ${stats.totalFrames}`],
+    ['Network errors', String(stats.errors.network)],
+    ['Media errors', String(stats.errors.media)],
+    ['Fatal errors', String(stats.errors.fatal)],
+  ];
+
+  return (
+    <div className="bg-card/80 backdrop-blur rounded-lg border border-border p-3 text-xs font-mono min-w-56">
+      <div className="mb-2 text-[11px] font-sans font-semibold uppercase tracking-wide text-muted-foreground">
+        Stream Stats
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
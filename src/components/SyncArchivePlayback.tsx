@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, isToday } from 'date-fns';
+import { ChevronLeft, ChevronRight, History, Pause, Play, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Camera, RecordingSegment } from '@/types/camera';
+import { PLAYBACK_RATES, getDayRange, segmentStart, sortSegments } from '@/lib/archive';
+import { PlaybackClock } from '@/lib/playbackClock';
+import { api } from '@/lib/api';
+import { ArchiveTimeline } from './ArchiveTimeline';
+import { SyncArchiveTile } from './SyncArchiveTile';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface SyncArchivePlaybackProps {
+  cameras: Camera[];   // 2–4 kamera
+  onExit: () => void;
+}
+
+export const SyncArchivePlayback = ({ cameras, onExit }: SyncArchivePlaybackProps) => {
+  const [clock] = useState(() => new PlaybackClock());
+  const [day, setDay] = useState(() => new Date());
+  const [segmentsByCamera, setSegmentsByCamera] = useState<Record<string, RecordingSegment[]>>({});
+  const [time, setTime] = useState(() => clock.now());
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+
+  const { from, to } = useMemo(() => getDayRange(day), [day]);
+  const cameraIds = cameras.map((cam) => cam.id).join(',');
+
+  useEffect(() => {
+    const offs = [
+      clock.on('tick', ({ time }) => setTime(time)),
+      clock.on('seek', ({ time }) => setTime(time)),
+      clock.on('state', ({ playing, rate }) => {
+        setPlaying(playing);
+        setRate(rate);
+        setTime(clock.now());
+      }),
+    ];
+    return () => offs.forEach((off) => off());
+  }, [clock]);
+
+  useEffect(() => () => clock.destroy(), [clock]);
+
+  // ambil segmen semua kamera untuk hari terpilih, lalu taruh clock di rekaman paling awal
+  useEffect(() => {
+    let mounted = true;
+    clock.pause();
+    clock.setEnd(to.getTime());
+
+    (async () => {
+      const ids = cameraIds.split(',');
+      const results = await Promise.allSettled(ids.map((id) => api.recordings.listSegments(id, { from, to })));
+      if (!mounted) return;
+
+      const next: Record<string, RecordingSegment[]> = {};
+      let failed = 0;
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          next[ids[index]] = sortSegments(result.value);
+        } else {
+          console.error(`Failed to load recordings for camera ${ids[index]}:`, result.reason);
+          next[ids[index]] = [];
+          failed++;
+        }
+      });
+      if (failed > 0) toast.error(`Failed to load recordings for ${failed} camera(s)`);
+
+      const starts = Object.values(next).flatMap((segments) => segments.map(segmentStart));
+      clock.seek(starts.length ? Math.max(from.getTime(), Math.min(...starts)) : from.getTime());
+      setSegmentsByCamera(next);
+    })();
+
+    return () => { mounted = false; };
+  }, [clock, cameraIds, from, to]);
+
+  const allSegments = useMemo(() => Object.values(segmentsByCamera).flat(), [segmentsByCamera]);
+
+  const cols = cameras.length <= 2 ? cameras.length : 2;
+  const rows = Math.ceil(cameras.length / cols);
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4 p-4 border-b border-border bg-card/50">
+        <div className="flex items-center gap-3">
+          <History className="h-5 w-5 text-primary" />
+          <span className="font-semibold">Synchronized Playback</span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setDay((d) => addDays(d, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-28 text-center">{format(day, 'dd MMM yyyy')}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={isToday(day)}
+              onClick={() => setDay((d) => addDays(d, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Select value={String(rate)} onValueChange={(val) => clock.setRate(Number(val))}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}x
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={onExit}>
+            <X className="h-4 w-4 mr-2" />
+            Exit Playback
+          </Button>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 p-4 overflow-auto">
+        <div
+          className="grid gap-4 h-full"
+          style={{
+            gridTemplateColumns: `repeat(${cols}, 1fr)`,
+            gridTemplateRows: `repeat(${rows}, 1fr)`,
+          }}
+        >
+          {cameras.map((camera) => (
+            <SyncArchiveTile
+              key={camera.id}
+              camera={camera}
+              segments={segmentsByCamera[camera.id] ?? []}
+              clock={clock}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Shared controls */}
+      <div className="border-t border-border bg-card/50 px-4 py-3 space-y-2">
+        <div className="flex items-center gap-3">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => (playing ? clock.pause() : clock.play())}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <span className="font-mono text-sm">{format(time, 'HH:mm:ss')}</span>
+        </div>
+
+        <ArchiveTimeline
+          from={from}
+          to={to}
+          segments={allSegments}
+          position={time}
+          onSeek={(value) => clock.seek(value)}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, RefreshCw, VideoOff } from 'lucide-react';
+import { Camera, RecordingSegment } from '@/types/camera';
+import { PlaybackClock } from '@/lib/playbackClock';
+import { PlayerState } from '@/lib/playerEvents';
+import { SyncedArchivePlayer, SyncedArchiveStatus } from '@/lib/syncedArchivePlayer';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { PlayerStateOverlay } from './PlayerStateOverlay';
+import { Button } from '@/components/ui/button';
+
+interface SyncArchiveTileProps {
+  camera: Camera;
+  segments: RecordingSegment[];
+  clock: PlaybackClock;
+}
+
+export const SyncArchiveTile = ({ camera, segments, clock }: SyncArchiveTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<SyncedArchivePlayer | null>(null);
+  const segmentsRef = useRef(segments);
+  const [status, setStatus] = useState<SyncedArchiveStatus>('idle');
+  const [playerState, setPlayerState] = useState<PlayerState>('idle');
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const player = new SyncedArchivePlayer(video, camera.id, clock);
+    player.on('status', ({ status }) => setStatus(status));
+    player.on('state', ({ state }) => setPlayerState(state));
+    playerRef.current = player;
+    player.setSegments(segmentsRef.current);
+
+    return () => {
+      player.destroy();
+      playerRef.current = null;
+      setStatus('idle');
+      setPlayerState('idle');
+    };
+  }, [camera.id, clock]);
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+    playerRef.current?.setSegments(segments);
+  }, [segments]);
+
+  const viewTransform = useViewTransform(containerRef, camera.id);
+  const noRecording = status === 'gap' || status === 'idle';
+
+  return (
+    <div className="grid-cell">
+      <div className="absolute top-2 left-2 z-10 flex items-center gap-2 bg-card/80 backdrop-blur px-2 py-1 rounded">
+        <span className="text-xs font-medium">{camera.name}</span>
+      </div>
+
+      <div ref={containerRef} className="video-container">
+        <video ref={videoRef} data-camera-id={camera.id} style={viewTransform.style} muted playsInline />
+
+        {status === 'ready' || status === 'loading' ? (
+          <PlayerStateOverlay
+            state={status === 'loading' ? 'loading' : playerState}
+            onRetry={() => playerRef.current?.retry()}
+          />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-background/80">
+            {noRecording ? (
+              <>
+                <VideoOff className="h-6 w-6 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">No recording</span>
+              </>
+            ) : (
+              <>
+                <AlertTriangle className="h-6 w-6 text-destructive" />
+                <span className="text-sm text-destructive">Failed to load recording</span>
+                <Button size="sm" variant="outline" onClick={() => playerRef.current?.retry()}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Retry
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Camera } from '@/types/camera';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+const SYNC_PLAYBACK_MIN_CAMERAS = 2;
+const SYNC_PLAYBACK_MAX_CAMERAS = 4;
+
+interface SyncPlaybackDialogProps {
+  open: boolean;
+  cameras: Camera[];
+  onClose: () => void;
+  onStart: (ids: string[]) => void;
+}
+
+export const SyncPlaybackDialog = ({ open, cameras, onClose, onStart }: SyncPlaybackDialogProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) setSelected([]);
+  }, [open]);
+
+  const handleToggle = (id: string) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((item) => item !== id) : [...current, id]
+    );
+  };
+
+  const full = selected.length >= SYNC_PLAYBACK_MAX_CAMERAS;
+  const canStart = selected.length >= SYNC_PLAYBACK_MIN_CAMERAS;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Synchronized Playback</DialogTitle>
+          <DialogDescription>
+            Choose {SYNC_PLAYBACK_MIN_CAMERAS}–{SYNC_PLAYBACK_MAX_CAMERAS} cameras to replay on a shared clock
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-72 pr-3">
+          <div className="space-y-1">
+            {cameras.map((camera) => {
+              const checked = selected.includes(camera.id);
+              return (
+                <label
+                  key={camera.id}
+                  className="flex items-center gap-3 rounded px-2 py-2 hover:bg-accent cursor-pointer"
+                >
+                  <Checkbox
+                    checked={checked}
+                    disabled={!checked && full}
+                    onCheckedChange={() => handleToggle(camera.id)}
+                  />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{camera.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {[camera.building, camera.zone].filter(Boolean).join(' • ') || 'No location'}
+                    </div>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!canStart}
+            onClick={() => {
+              onStart(selected);
+              onClose();
+            }}
+          >
+            Start Playback ({selected.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,146 @@
+import { RotateCw } from 'lucide-react';
+import { Camera } from '@/types/camera';
+import {
+  ADJUSTMENT_RANGE,
+  VIEW_FITS,
+  VIEW_ROTATIONS,
+  ViewFit,
+  ViewTransform,
+  isDefaultViewTransform,
+  resolveViewTransform,
+} from '@/lib/viewTransform';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ViewSettingsDialogProps {
+  camera: Camera | null;
+  onClose: () => void;
+}
+
+const ADJUSTMENTS: { key: 'brightness' | 'contrast' | 'saturation'; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+];
+
+// Perubahan langsung disimpan → semua tampilan kamera ikut berubah selagi diedit
+export const ViewSettingsDialog = ({ camera, onClose }: ViewSettingsDialogProps) => {
+  const stored = useCameraPrefs((s) => (camera ? s.prefs[camera.id]?.view : undefined));
+  const setCameraPrefs = useCameraPrefs((s) => s.setCameraPrefs);
+  const view = resolveViewTransform(stored);
+
+  const update = (updates: Partial<ViewTransform>) => {
+    if (!camera) return;
+    const next = { ...view, ...updates };
+    setCameraPrefs(camera.id, { view: isDefaultViewTransform(next) ? undefined : next });
+  };
+
+  return (
+    <Dialog open={camera !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>View Settings</DialogTitle>
+          <DialogDescription>
+            Orientation and image adjustments for {camera?.name}, applied wherever it is shown
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-2">
+            <Label>Rotation</Label>
+            <div className="flex gap-2">
+              {VIEW_ROTATIONS.map((rotation) => (
+                <Button
+                  key={rotation}
+                  size="sm"
+                  variant={view.rotation === rotation ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => update({ rotation })}
+                >
+                  <RotateCw className="h-3.5 w-3.5 mr-1" />
+                  {rotation}°
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="flipH">Flip horizontal</Label>
+              <Switch id="flipH" checked={view.flipH} onCheckedChange={(flipH) => update({ flipH })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="flipV">Flip vertical</Label>
+              <Switch id="flipV" checked={view.flipV} onCheckedChange={(flipV) => update({ flipV })} />
+            </div>
+          </div>
+
+          {ADJUSTMENTS.map(({ key, label }) => (
+            <div key={key} className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>{label}</Label>
+                <span className="text-xs font-mono text-muted-foreground">{view[key]}%</span>
+              </div>
+              <Slider
+                min={ADJUSTMENT_RANGE.min}
+                max={ADJUSTMENT_RANGE.max}
+                step={5}
+                value={[view[key]]}
+                onValueChange={([value]) => update({ [key]: value })}
+              />
+            </div>
+          ))}
+
+          <div className="grid gap-2">
+            <Label htmlFor="fit">Fit</Label>
+            <Select
+              value={view.fit ?? 'default'}
+              onValueChange={(value) => update({ fit: value === 'default' ? undefined : (value as ViewFit) })}
+            >
+              <SelectTrigger id="fit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default for each view</SelectItem>
+                {VIEW_FITS.map((fit) => (
+                  <SelectItem key={fit.id} value={fit.id}>
+                    {fit.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={isDefaultViewTransform(view)}
+            onClick={() => camera && setCameraPrefs(camera.id, { view: undefined })}
+          >
+            Reset
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
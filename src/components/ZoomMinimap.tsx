@@ -0,0 +1,93 @@
+import { MouseEvent, RefObject, useEffect, useRef } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { ZoomState } from '@/lib/digitalZoom';
+import { cn } from '@/lib/utils';
+
+interface ZoomMinimapProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  zoom: ZoomState;
+  onNavigate: (x: number, y: number) => void;
+  onReset: () => void;
+  width?: number;
+  className?: string;
+}
+
+const REDRAW_INTERVAL = 500;
+
+// Inset frame penuh dengan kotak area yang sedang di-zoom
+export const ZoomMinimap = ({ videoRef, zoom, onNavigate, onReset, width = 160, className }: ZoomMinimapProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const draw = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!video || !canvas || !ctx || !video.videoWidth || !video.clientWidth) return;
+
+      // minimap mengikuti kotak elemen video (zoom dinormalisasi ke elemen, bukan ke frame)
+      canvas.width = width;
+      canvas.height = Math.round((width * video.clientHeight) / video.clientWidth);
+      const fit = getComputedStyle(video).objectFit === 'cover' ? Math.max : Math.min;
+      const ratio = fit(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+      const frameWidth = video.videoWidth * ratio;
+      const frameHeight = video.videoHeight * ratio;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(
+        video,
+        (canvas.width - frameWidth) / 2,
+        (canvas.height - frameHeight) / 2,
+        frameWidth,
+        frameHeight
+      );
+    };
+    draw();
+    const interval = setInterval(draw, REDRAW_INTERVAL);
+    return () => clearInterval(interval);
+  }, [videoRef, width]);
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  const size = 100 / zoom.scale;
+
+  return (
+    <div
+      data-zoom-ignore
+      className={cn('flex flex-col gap-1 rounded bg-card/80 backdrop-blur p-1', className)}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <div className="relative cursor-pointer" style={{ width }} onClick={handleClick}>
+        <canvas ref={canvasRef} className="block w-full bg-black" />
+        <div
+          className="absolute border-2 border-primary pointer-events-none"
+          style={{
+            left: `${(zoom.x - 1 / (2 * zoom.scale)) * 100}%`,
+            top: `${(zoom.y - 1 / (2 * zoom.scale)) * 100}%`,
+            width: `${size}%`,
+            height: `${size}%`,
+          }}
+        />
+      </div>
+      <div className="flex items-center justify-between px-1 text-[10px] font-mono">
+        <span>{zoom.scale.toFixed(1)}×</span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onReset();
+          }}
+          className="flex items-center gap-1 hover:text-primary"
+          title="Reset zoom"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
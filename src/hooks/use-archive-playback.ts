@@ -0,0 +1,156 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { RecordingPlayback, RecordingSegment } from '@/types/camera';
+import { HlsPlayer } from '@/lib/hlsPlayer';
+import { PlayerState } from '@/lib/playerEvents';
+import { findNextSegment, findSegmentAt, segmentEnd, segmentStart } from '@/lib/archive';
+import { api } from '@/lib/api';
+
+// Putar arsip per segmen: klik timeline → load playlist VOD segmen itu lalu seek,
+// segmen habis → lanjut otomatis ke segmen berikutnya (gap dilewati)
+export function useArchivePlayback(
+  videoRef: RefObject<HTMLVideoElement>,
+  cameraId: string | undefined,
+  segments: RecordingSegment[], // terurut berdasarkan start_time
+  rate: number
+) {
+  const playerRef = useRef<HlsPlayer | null>(null);
+  const playbackCache = useRef(new Map<string, RecordingPlayback>());
+  const segmentsRef = useRef(segments);
+  const rateRef = useRef(rate);
+  const loadToken = useRef(0);
+  const playbackStartRef = useRef(0);  // epoch ms untuk posisi 0 playlist aktif
+  const pendingSeekRef = useRef<number | null>(null);
+  const currentSegmentRef = useRef<RecordingSegment | null>(null);
+
+  const [state, setState] = useState<PlayerState>('idle');
+  const [segment, setSegment] = useState<RecordingSegment | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  segmentsRef.current = segments;
+  rateRef.current = rate;
+
+  // ganti kamera → cache playlist tidak berlaku lagi
+  useEffect(() => {
+    playbackCache.current.clear();
+  }, [cameraId]);
+
+  const loadSegment = useCallback(
+    async (next: RecordingSegment, time: number) => {
+      if (!cameraId || !playerRef.current) return;
+      const token = ++loadToken.current;
+
+      try {
+        let playback = playbackCache.current.get(next.id);
+        if (!playback) {
+          playback = await api.recordings.getPlayback(cameraId, {
+            from: new Date(segmentStart(next)),
+            to: new Date(segmentEnd(next)),
+          });
+          playbackCache.current.set(next.id, playback);
+        }
+        if (token !== loadToken.current || !playerRef.current) return;
+
+        playbackStartRef.current = new Date(playback.start_time).getTime();
+        pendingSeekRef.current = Math.max(0, (time - playbackStartRef.current) / 1000);
+        currentSegmentRef.current = next;
+        setSegment(next);
+        setPosition(time);
+        playerRef.current.load(playback.url);
+      } catch (error) {
+        console.error('Failed to load recording:', error);
+        toast.error('Failed to load recording', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    },
+    [cameraId]
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const player = new HlsPlayer(video);
+    player.on('state', ({ state }) => setState(state));
+    playerRef.current = player;
+
+    const handleLoadedMetadata = () => {
+      video.defaultPlaybackRate = rateRef.current;
+      video.playbackRate = rateRef.current;
+      if (pendingSeekRef.current !== null) {
+        video.currentTime = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+      }
+    };
+    const handleTimeUpdate = () => {
+      if (pendingSeekRef.current !== null) return;
+      setPosition(playbackStartRef.current + video.currentTime * 1000);
+    };
+    const handleEnded = () => {
+      const current = currentSegmentRef.current;
+      if (!current) return;
+      const next = findNextSegment(segmentsRef.current, segmentEnd(current));
+      if (next) loadSegment(next, segmentStart(next));
+    };
+    const handlePlay = () => setPlaying(true);
+    const handlePause = () => setPlaying(false);
+
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+
+    return () => {
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      player.destroy();
+      playerRef.current = null;
+      currentSegmentRef.current = null;
+      setSegment(null);
+      setPosition(null);
+      setPlaying(false);
+    };
+  }, [videoRef, loadSegment]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.defaultPlaybackRate = rate;
+    video.playbackRate = rate;
+  }, [videoRef, rate]);
+
+  // seek ke waktu absolut; di dalam gap → mulai dari segmen berikutnya
+  const seek = useCallback(
+    (time: number) => {
+      const target = findSegmentAt(segmentsRef.current, time) ?? findNextSegment(segmentsRef.current, time);
+      if (!target) return false;
+
+      const startAt = Math.max(time, segmentStart(target));
+      const video = videoRef.current;
+      if (video && currentSegmentRef.current?.id === target.id && pendingSeekRef.current === null) {
+        video.currentTime = (startAt - playbackStartRef.current) / 1000;
+        setPosition(startAt);
+        video.play().catch(() => {});
+      } else {
+        loadSegment(target, startAt);
+      }
+      return true;
+    },
+    [videoRef, loadSegment]
+  );
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !currentSegmentRef.current) return;
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  }, [videoRef]);
+
+  return { state, segment, position, playing, seek, togglePlay };
+}
@@ -0,0 +1,74 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { getAudioAnalyser, readAudioLevel } from '@/lib/audioMeter';
+import { useAudioFocus } from '@/state/useAudioFocus';
+
+const METER_INTERVAL = 80;
+
+interface UseAudioOutputOptions {
+  available: boolean; // stream sedang jalan; kalau tidak, fokus audio dilepas
+}
+
+// Mute/volume elemen video mengikuti fokus audio global
+export function useAudioOutput(
+  videoRef: RefObject<HTMLVideoElement>,
+  cameraId: string | undefined,
+  { available }: UseAudioOutputOptions
+) {
+  const audible = useAudioFocus((s) => cameraId !== undefined && s.audibleCameraId === cameraId);
+  const volume = useAudioFocus((s) => s.volume);
+  const setVolume = useAudioFocus((s) => s.setVolume);
+  const setAudibleCamera = useAudioFocus((s) => s.setAudibleCamera);
+  const toggleAudibleCamera = useAudioFocus((s) => s.toggleAudibleCamera);
+  const [level, setLevel] = useState<number | null>(0);
+
+  // player selalu mulai dalam keadaan muted (syarat autoplay), jadi terapkan ulang tiap source baru
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const apply = () => {
+      video.muted = !audible;
+      video.volume = volume;
+    };
+    apply();
+    video.addEventListener('loadedmetadata', apply);
+    video.addEventListener('playing', apply);
+    return () => {
+      video.removeEventListener('loadedmetadata', apply);
+      video.removeEventListener('playing', apply);
+    };
+  }, [videoRef, audible, volume]);
+
+  // stream berhenti / tile hilang → kamera lain tidak ikut terkunci bisu
+  useEffect(() => {
+    if (audible && !available) setAudibleCamera(null);
+  }, [audible, available, setAudibleCamera]);
+
+  useEffect(() => {
+    if (!cameraId) return;
+    return () => {
+      if (useAudioFocus.getState().audibleCameraId === cameraId) setAudibleCamera(null);
+    };
+  }, [cameraId, setAudibleCamera]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !audible) return;
+    const interval = setInterval(() => {
+      const analyser = getAudioAnalyser(video);
+      setLevel(analyser ? readAudioLevel(analyser) : null);
+    }, METER_INTERVAL);
+    return () => clearInterval(interval);
+  }, [videoRef, audible]);
+
+  const toggle = useCallback(() => {
+    if (cameraId) toggleAudibleCamera(cameraId);
+  }, [cameraId, toggleAudibleCamera]);
+
+  return {
+    audible,
+    volume,
+    setVolume,
+    toggle,
+    level: audible ? level : 0, // null = level tidak bisa diukur
+  };
+}
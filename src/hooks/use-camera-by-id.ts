@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { Camera } from '@/types/camera';
+import { useCameras } from '@/state/useCameras';
+import { api } from '@/lib/api';
+
+// Kamera dari store; direct link / refresh (store masih kosong) → ambil dari API
+export function useCameraById(id: string | undefined) {
+  const storedCamera = useCameras((state) => state.cameras.find((c) => c.id === id));
+  const [fetchedCamera, setFetchedCamera] = useState<Camera | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id || storedCamera) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const cam = await api.cameras.getById(id);
+        if (mounted) setFetchedCamera(cam);
+      } catch (e) {
+        console.error('Failed to load camera from API:', e);
+        if (mounted) setLoadError(e instanceof Error ? e.message : 'Failed to load camera');
+      }
+    })();
+    return () => { mounted = false; };
+  }, [id, storedCamera]);
+
+  return { camera: storedCamera ?? fetchedCamera, loadError };
+}
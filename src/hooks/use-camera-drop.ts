@@ -0,0 +1,33 @@
+import { DragEvent, useCallback, useState } from 'react';
+import { getCameraDragData, hasCameraDragData } from '@/lib/cameraDrag';
+
+// Sel grid sebagai target drop kamera; `over` untuk highlight selama drag di atasnya
+export function useCameraDrop(onDrop: (cameraId: string) => void) {
+  const [over, setOver] = useState(false);
+
+  const onDragOver = useCallback((e: DragEvent<HTMLElement>) => {
+    if (!hasCameraDragData(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setOver(true);
+  }, []);
+
+  const onDragLeave = useCallback((e: DragEvent<HTMLElement>) => {
+    // dragleave juga terpicu saat pindah ke elemen anak
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setOver(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: DragEvent<HTMLElement>) => {
+      setOver(false);
+      const cameraId = getCameraDragData(e.dataTransfer);
+      if (!cameraId) return;
+      e.preventDefault();
+      onDrop(cameraId);
+    },
+    [onDrop]
+  );
+
+  return { over, dropHandlers: { onDragOver, onDragLeave, onDrop: handleDrop } };
+}
@@ -0,0 +1,141 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Camera } from '@/types/camera';
+import { CameraStreamPlayer, hasStreamSource } from '@/lib/cameraStreamPlayer';
+import { PlayerLevelInfo, PlayerState } from '@/lib/playerEvents';
+import { StreamProtocol } from '@/lib/streamPlayer';
+import { DEFAULT_PLAYBACK_PROFILE, PlaybackProfileId } from '@/lib/playbackProfiles';
+import { reportStreamFailure, reportStreamRecovered } from '@/lib/streamFailures';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { useStreamLease } from './use-stream-lease';
+
+interface UseCameraStreamOptions {
+  enabled: boolean;
+  suspended?: boolean;                 // tile tidak terlihat: hentikan download, lanjutkan saat terlihat
+  defaultProfile?: PlaybackProfileId; // profil kalau kamera tidak punya override
+}
+
+// Siklus hidup player untuk satu kamera: pilih protokol & profil, subscribe state, cleanup
+export function useCameraStream(
+  videoRef: RefObject<HTMLVideoElement>,
+  camera: Camera | null | undefined,
+  { enabled, suspended = false, defaultProfile = DEFAULT_PLAYBACK_PROFILE }: UseCameraStreamOptions
+) {
+  const playerRef = useRef<CameraStreamPlayer | null>(null);
+  const suspendedRef = useRef(suspended);
+  const pendingLoadRef = useRef<(() => void) | null>(null);
+  const [state, setState] = useState<PlayerState>('idle');
+  const [hasPlayed, setHasPlayed] = useState(false);
+  const [failureDetail, setFailureDetail] = useState<string>();
+  const [protocol, setProtocol] = useState<StreamProtocol | null>(null);
+  const [levels, setLevels] = useState<PlayerLevelInfo[]>([]);
+  const [activeLevel, setActiveLevel] = useState(-1);
+  const [selectedLevel, setSelectedLevel] = useState(-1);
+
+  const globalProtocol = useLayoutPrefs((s) => s.streamProtocol);
+  const cameraProtocol = useCameraPrefs((s) => (camera ? s.prefs[camera.id]?.protocol : undefined));
+  const preference = cameraProtocol ?? globalProtocol;
+  const cameraProfile = useCameraPrefs((s) => (camera ? s.prefs[camera.id]?.profile : undefined));
+  const profile = cameraProfile ?? defaultProfile;
+
+  // status terbaru untuk laporan gagal, tanpa membuat ulang player tiap status berubah
+  const statusRef = useRef(camera?.status);
+  statusRef.current = camera?.status;
+
+  // backend hanya transcoding selama ada yang menonton
+  const streamUrls = useStreamLease(camera, enabled && !suspended);
+
+  const cameraId = camera?.id;
+  const hlsUrl = streamUrls?.hls_url;
+  const webrtcUrl = streamUrls?.webrtc_url;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !video || !cameraId) return;
+
+    const sources = { hls_url: hlsUrl, webrtc_url: webrtcUrl };
+    if (!hasStreamSource(sources)) return;
+
+    const player = new CameraStreamPlayer(video, { hls: { profile } });
+    player.on('state', ({ state }) => {
+      setState(state);
+      if (state !== 'playing') return;
+      setHasPlayed(true);
+      reportStreamRecovered(cameraId);
+    });
+    player.on('protocolChanged', ({ protocol }) => {
+      setProtocol(protocol);
+      setLevels([]);
+      setActiveLevel(-1);
+    });
+    player.on('levels', ({ levels }) => {
+      setLevels(levels);
+      setSelectedLevel(player.getSelectedLevel());
+    });
+    player.on('levelSwitched', ({ level }) => setActiveLevel(level));
+    player.on('gaveUp', ({ attempts }) => {
+      setFailureDetail(`Gave up after ${attempts} attempts`);
+      if (statusRef.current) reportStreamFailure(cameraId, statusRef.current);
+    });
+    playerRef.current = player;
+
+    // tile yang dibuat dalam keadaan tidak terlihat baru load saat pertama kali terlihat
+    const load = () => player.load(sources, preference);
+    if (suspendedRef.current) pendingLoadRef.current = load;
+    else load();
+
+    return () => {
+      player.destroy();
+      playerRef.current = null;
+      pendingLoadRef.current = null;
+      setState('idle');
+      setHasPlayed(false);
+      setFailureDetail(undefined);
+      setProtocol(null);
+      setLevels([]);
+      setActiveLevel(-1);
+      setSelectedLevel(-1);
+    };
+  }, [videoRef, enabled, cameraId, hlsUrl, webrtcUrl, preference, profile]);
+
+  useEffect(() => {
+    suspendedRef.current = suspended;
+    const player = playerRef.current;
+    if (!player) return;
+
+    if (suspended) {
+      if (!pendingLoadRef.current) player.pause();
+    } else if (pendingLoadRef.current) {
+      pendingLoadRef.current();
+      pendingLoadRef.current = null;
+    } else {
+      player.resume();
+    }
+  }, [suspended]);
+
+  const retry = useCallback(() => {
+    setFailureDetail(undefined);
+    playerRef.current?.retry();
+  }, []);
+
+  const setLevel = useCallback((level: number) => {
+    playerRef.current?.setLevel(level);
+    setSelectedLevel(level);
+  }, []);
+
+  // selama menunggu startStream, tampilkan sebagai loading
+  const starting = enabled && !suspended && !streamUrls;
+
+  return {
+    playerRef,
+    state: starting ? 'loading' : state,
+    hasPlayed,
+    failureDetail,
+    protocol,
+    retry,
+    levels,
+    activeLevel,
+    selectedLevel,
+    setLevel,
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { CellSequence, CellSequences } from '@/lib/cellAssignments';
+
+export interface SequencePosition {
+  index: number;     // urutan kamera yang sedang tampil di sequence
+  startedAt: number; // untuk bar progres dwell
+}
+
+interface RunningSequence {
+  key: string; // isi sequence saat timer dipasang
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const sequenceKey = ({ cameraIds, dwellSeconds }: CellSequence) => `${dwellSeconds}:${cameraIds.join(',')}`;
+
+// Timer terpisah per sel sequence; hanya sel yang daftar kamera / dwell-nya berubah yang diulang dari awal
+export function useCellSequences(sequences: CellSequences) {
+  const [positions, setPositions] = useState<Record<number, SequencePosition>>({});
+  const runningRef = useRef(new Map<number, RunningSequence>());
+
+  useEffect(() => {
+    const running = runningRef.current;
+
+    const show = (cell: number, sequence: CellSequence, index: number) => {
+      const entry = running.get(cell);
+      if (!entry) return;
+      setPositions((current) => ({ ...current, [cell]: { index, startedAt: Date.now() } }));
+      entry.timer =
+        sequence.cameraIds.length < 2
+          ? null
+          : setTimeout(() => show(cell, sequence, (index + 1) % sequence.cameraIds.length), sequence.dwellSeconds * 1000);
+    };
+
+    running.forEach((entry, cell) => {
+      const sequence = sequences[cell];
+      if (sequence && sequenceKey(sequence) === entry.key) return;
+      if (entry.timer) clearTimeout(entry.timer);
+      running.delete(cell);
+    });
+
+    setPositions((current) =>
+      Object.fromEntries(Object.entries(current).filter(([cell]) => running.has(Number(cell))))
+    );
+
+    Object.entries(sequences).forEach(([cell, sequence]) => {
+      if (running.has(Number(cell))) return;
+      running.set(Number(cell), { key: sequenceKey(sequence), timer: null });
+      show(Number(cell), sequence, 0);
+    });
+  }, [sequences]);
+
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => {
+      running.forEach((entry) => {
+        if (entry.timer) clearTimeout(entry.timer);
+      });
+      running.clear();
+    };
+  }, []);
+
+  return positions;
+}
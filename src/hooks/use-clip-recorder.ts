@@ -0,0 +1,53 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Camera } from '@/types/camera';
+import { ClipRecording, DEFAULT_MAX_CLIP_SECONDS, clipFileName, startClipRecording } from '@/lib/clipRecorder';
+import { downloadBlob } from '@/lib/snapshot';
+
+export function useClipRecorder(
+  videoRef: RefObject<HTMLVideoElement>,
+  camera: Camera | null | undefined,
+  maxSeconds = DEFAULT_MAX_CLIP_SECONDS
+) {
+  const recordingRef = useRef<ClipRecording | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!recording) return;
+    const interval = setInterval(() => {
+      const startedAt = recordingRef.current?.startedAt.getTime() ?? Date.now();
+      setElapsed(Math.floor((Date.now() - startedAt) / 1000));
+    }, 250);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  // tile di-unmount saat merekam → simpan yang sudah terekam
+  useEffect(() => () => recordingRef.current?.stop(), []);
+
+  const start = useCallback(() => {
+    if (!videoRef.current || !camera || recordingRef.current) return;
+    try {
+      recordingRef.current = startClipRecording(videoRef.current, {
+        maxSeconds,
+        onComplete: (blob, startedAt, endedAt) => {
+          recordingRef.current = null;
+          setRecording(false);
+          setElapsed(0);
+          downloadBlob(blob, clipFileName(camera, startedAt, endedAt));
+        },
+      });
+      setRecording(true);
+    } catch (error) {
+      toast.error('Recording failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [videoRef, camera, maxSeconds]);
+
+  const stop = useCallback(() => {
+    recordingRef.current?.stop();
+  }, []);
+
+  return { recording, elapsed, maxSeconds, start, stop };
+}
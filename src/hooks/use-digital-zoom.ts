@@ -0,0 +1,145 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_ZOOM, ZoomState, clampZoom, isZoomed, panBy, zoomAt } from '@/lib/digitalZoom';
+
+interface UseDigitalZoomOptions {
+  enabled: boolean;
+  initial?: ZoomState;
+  onCommit?: (zoom: ZoomState) => void;  // dipanggil setelah gesture selesai (untuk disimpan)
+}
+
+const WHEEL_ZOOM_STEP = 0.0015;
+const DRAG_THRESHOLD = 4;   // px sebelum pointer dianggap drag, supaya klik tombol tetap jalan
+const COMMIT_DELAY = 300;
+
+// elemen interaktif di dalam container tidak memulai pan
+const IGNORE_SELECTOR = 'button, input, a, [role="slider"], [data-zoom-ignore]';
+
+// Wheel / pinch untuk zoom, drag untuk pan, pada container video
+export function useDigitalZoom(
+  containerRef: RefObject<HTMLElement>,
+  { enabled, initial, onCommit }: UseDigitalZoomOptions
+) {
+  const [zoom, setZoomState] = useState<ZoomState>(() => clampZoom(initial ?? DEFAULT_ZOOM));
+  const zoomRef = useRef(zoom);
+  const onCommitRef = useRef(onCommit);
+  const commitTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  onCommitRef.current = onCommit;
+
+  const setZoom = useCallback((next: ZoomState) => {
+    const clamped = clampZoom(next);
+    zoomRef.current = clamped;
+    setZoomState(clamped);
+
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => {
+      commitTimer.current = null;
+      onCommitRef.current?.(clamped);
+    }, COMMIT_DELAY);
+  }, []);
+
+  const reset = useCallback(() => setZoom(DEFAULT_ZOOM), [setZoom]);
+
+  useEffect(() => () => {
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+  }, []);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || !enabled) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let dragging = false;
+    let dragStart: { x: number; y: number } | null = null;
+    let pinchDistance = 0;
+    let suppressClick = false;
+
+    const toLocal = (clientX: number, clientY: number) => {
+      const rect = el.getBoundingClientRect();
+      return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = zoomRef.current;
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_STEP);
+      setZoom(zoomAt(current, current.scale * factor, toLocal(e.clientX, e.clientY)));
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || (e.target as HTMLElement).closest(IGNORE_SELECTOR)) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      dragStart = { x: e.clientX, y: e.clientY };
+      if (pointers.size === 2) {
+        const [a, b] = Array.from(pointers.values());
+        pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const previous = pointers.get(e.pointerId);
+      if (!previous) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const rect = el.getBoundingClientRect();
+
+      if (pointers.size >= 2) {
+        const [a, b] = Array.from(pointers.values());
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        if (pinchDistance > 0) {
+          const anchor = toLocal((a.x + b.x) / 2, (a.y + b.y) / 2);
+          setZoom(zoomAt(zoomRef.current, zoomRef.current.scale * (distance / pinchDistance), anchor));
+        }
+        pinchDistance = distance;
+        dragging = true;
+        return;
+      }
+
+      if (!isZoomed(zoomRef.current)) return;
+      if (!dragging && dragStart) {
+        if (Math.hypot(e.clientX - dragStart.x, e.clientY - dragStart.y) < DRAG_THRESHOLD) return;
+        dragging = true;
+        el.setPointerCapture(e.pointerId);
+      }
+      setZoom(panBy(zoomRef.current, (e.clientX - previous.x) / rect.width, (e.clientY - previous.y) / rect.height));
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (el.hasPointerCapture(e.pointerId)) el.releasePointerCapture(e.pointerId);
+      if (pointers.size < 2) pinchDistance = 0;
+      if (pointers.size === 0) {
+        suppressClick = dragging;
+        dragging = false;
+        dragStart = null;
+      }
+    };
+
+    // klik setelah drag bukan klik (jangan pilih / maximize tile)
+    const handleClick = (e: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      e.stopPropagation();
+    };
+
+    const previousTouchAction = el.style.touchAction;
+    el.style.touchAction = 'none';
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    el.addEventListener('pointerdown', handlePointerDown);
+    el.addEventListener('pointermove', handlePointerMove);
+    el.addEventListener('pointerup', handlePointerUp);
+    el.addEventListener('pointercancel', handlePointerUp);
+    el.addEventListener('click', handleClick, true);
+
+    return () => {
+      el.style.touchAction = previousTouchAction;
+      el.removeEventListener('wheel', handleWheel);
+      el.removeEventListener('pointerdown', handlePointerDown);
+      el.removeEventListener('pointermove', handlePointerMove);
+      el.removeEventListener('pointerup', handlePointerUp);
+      el.removeEventListener('pointercancel', handlePointerUp);
+      el.removeEventListener('click', handleClick, true);
+    };
+  }, [containerRef, enabled, setZoom]);
+
+  return { zoom, setZoom, reset, zoomed: isZoomed(zoom) };
+}
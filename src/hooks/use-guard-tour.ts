@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { INTERACTION_RESUME_MS, tourPage, tourPageCount, wrapStep } from '@/lib/guardTour';
+import { resolveGridLayout } from '@/lib/gridLayouts';
+import { resolveActiveSequences } from '@/lib/cellAssignments';
+import { useCameras } from '@/state/useCameras';
+import { captureTourWall, restoreTourWall, useGuardTour } from '@/state/useGuardTour';
+import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { applySavedView, useSavedViews } from '@/state/useSavedViews';
+
+// Klik di kontrol tour sendiri (atribut data-guard-tour) tidak dihitung sebagai interaksi operator
+const CONTROLS_SELECTOR = '[data-guard-tour]';
+
+// Mesin guard tour: ganti langkah tiap dwell, jeda sementara saat operator berinteraksi
+export function useGuardTourRunner() {
+  const { source, dwellSeconds, viewIds, running, step, pauseReason, start, stop, pause, resume, setStep } =
+    useGuardTour();
+  const cameras = useCameras((s) => s.cameras);
+  const setSelectedCameraIds = useCameras((s) => s.setSelectedCameraIds);
+  const { gridLayout, customLayouts, cellSequences, setCellCameraIds } = useLayoutPrefs();
+  const views = useSavedViews((s) => s.views);
+  const setActiveView = useSavedViews((s) => s.setActiveView);
+  const [timerStartedAt, setTimerStartedAt] = useState<number | null>(null);
+
+  // satu halaman = tile di layout sekarang, dikurangi sel yang dipakai sequence
+  const totalCells = resolveGridLayout(gridLayout, customLayouts).tiles.length;
+  const reservedCells = Object.keys(resolveActiveSequences(cellSequences, totalCells)).length;
+  const pageSize = Math.max(1, totalCells - reservedCells);
+  const tourViews = useMemo(
+    () => (viewIds.length > 0 ? views.filter((view) => viewIds.includes(view.id)) : views),
+    [views, viewIds]
+  );
+  const stepCount = source === 'pages' ? tourPageCount(cameras.length, pageSize) : tourViews.length;
+
+  const goTo = useCallback(
+    (target: number) => {
+      const index = wrapStep(target, stepCount);
+      setStep(index);
+      if (source === 'views') {
+        const view = tourViews[index];
+        if (view) applySavedView(view);
+        return;
+      }
+      const ids = tourPage(cameras.map((cam) => cam.id), pageSize, index);
+      setCellCameraIds(ids);
+      setSelectedCameraIds(ids);
+      setActiveView(null);
+    },
+    [stepCount, source, tourViews, cameras, pageSize, setStep, setCellCameraIds, setSelectedCameraIds, setActiveView]
+  );
+
+  // timer dipasang ulang hanya saat langkah / status jeda berubah, bukan tiap render
+  const goToRef = useRef(goTo);
+  goToRef.current = goTo;
+
+  useEffect(() => {
+    if (!running || pauseReason) {
+      setTimerStartedAt(null);
+      return;
+    }
+    setTimerStartedAt(Date.now());
+    const timer = setTimeout(() => goToRef.current(step + 1), dwellSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [running, pauseReason, step, dwellSeconds]);
+
+  useEffect(() => {
+    if (!running) return;
+    let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleInteraction = (e: Event) => {
+      if (e.target instanceof Element && e.target.closest(CONTROLS_SELECTOR)) return;
+      const { pauseReason: current } = useGuardTour.getState();
+      if (current && current !== 'interaction') return;
+      pause('interaction');
+      if (resumeTimer) clearTimeout(resumeTimer);
+      resumeTimer = setTimeout(() => {
+        if (useGuardTour.getState().pauseReason === 'interaction') resume();
+      }, INTERACTION_RESUME_MS);
+    };
+
+    const events = ['pointerdown', 'keydown', 'wheel'] as const;
+    events.forEach((type) => window.addEventListener(type, handleInteraction, { capture: true, passive: true }));
+    return () => {
+      events.forEach((type) => window.removeEventListener(type, handleInteraction, { capture: true }));
+      if (resumeTimer) clearTimeout(resumeTimer);
+    };
+  }, [running, pause, resume]);
+
+  // dashboard ditinggalkan (mis. logout) di tengah tour → hentikan dan pulihkan wall
+  useEffect(
+    () => () => {
+      if (!useGuardTour.getState().running) return;
+      stop();
+      restoreTourWall();
+    },
+    [stop]
+  );
+
+  const startTour = () => {
+    captureTourWall();
+    start();
+    goTo(0);
+  };
+
+  const stopTour = () => {
+    stop();
+    restoreTourWall();
+  };
+
+  return {
+    stepCount,
+    timerStartedAt,
+    stepLabel: source === 'views' ? tourViews[step]?.name ?? '' : `Page ${wrapStep(step, stepCount) + 1}`,
+    start: startTour,
+    stop: stopTour,
+    next: () => goTo(step + 1),
+    previous: () => goTo(step - 1),
+  };
+}
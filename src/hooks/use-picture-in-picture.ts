@@ -0,0 +1,42 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+const isPictureInPictureSupported = () =>
+  typeof document !== 'undefined' && 'pictureInPictureEnabled' in document && document.pictureInPictureEnabled;
+
+// Picture-in-Picture untuk elemen video tile; state ikut event browser (tombol close di jendela PiP)
+export function usePictureInPicture(videoRef: RefObject<HTMLVideoElement>) {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const handleEnter = () => setActive(true);
+    const handleLeave = () => setActive(false);
+    video.addEventListener('enterpictureinpicture', handleEnter);
+    video.addEventListener('leavepictureinpicture', handleLeave);
+    return () => {
+      video.removeEventListener('enterpictureinpicture', handleEnter);
+      video.removeEventListener('leavepictureinpicture', handleLeave);
+      if (document.pictureInPictureElement === video) document.exitPictureInPicture().catch(() => {});
+    };
+  }, [videoRef]);
+
+  const toggle = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      if (document.pictureInPictureElement === video) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (error) {
+      toast.error('Picture-in-Picture failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [videoRef]);
+
+  return { supported: isPictureInPictureSupported(), active, toggle };
+}
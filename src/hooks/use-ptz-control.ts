@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { PtzPreset, PtzVelocity } from '@/types/camera';
+import { api } from '@/lib/api';
+import { isEditableTarget } from '@/lib/keyboard';
+
+const MOVE_THROTTLE = 150;  // ms antar perintah move selama joystick digeser
+const KEY_SPEED = 0.5;
+const KEY_ZOOM_SPEED = 0.5;
+
+const ARROW_KEYS: Record<string, PtzVelocity> = {
+  ArrowUp: { pan: 0, tilt: 1 },
+  ArrowDown: { pan: 0, tilt: -1 },
+  ArrowLeft: { pan: -1, tilt: 0 },
+  ArrowRight: { pan: 1, tilt: 0 },
+};
+
+const isStopped = ({ pan, tilt }: PtzVelocity) => pan === 0 && tilt === 0;
+
+interface UsePtzControlOptions {
+  enabled: boolean;
+  keyboard?: boolean;   // panah = pan/tilt, +/- = zoom
+}
+
+export function usePtzControl(cameraId: string | undefined, { enabled, keyboard = false }: UsePtzControlOptions) {
+  const [presets, setPresets] = useState<PtzPreset[]>([]);
+  const movingRef = useRef(false);
+  const lastSentRef = useRef(0);
+  const pendingRef = useRef<PtzVelocity | null>(null);
+  const throttleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const errorShownRef = useRef(false);
+  const inFlightRef = useRef(false);
+  const queuedRef = useRef<(() => Promise<unknown>) | null>(null);
+
+  const handleError = useCallback((error: unknown) => {
+    console.error('PTZ command failed:', error);
+    // satu toast per rangkaian gagal, bukan tiap 150ms
+    if (errorShownRef.current) return;
+    errorShownRef.current = true;
+    toast.error('PTZ command failed', {
+      description: error instanceof Error ? error.message : undefined,
+    });
+  }, []);
+
+  // Satu request jalan, satu slot antre: urutan HTTP tidak dijamin, jadi perintah tidak dikirim paralel.
+  // Perintah baru menggantikan yang masih antre, sehingga backend yang lambat tidak menumpuk move
+  // dan stop langsung terkirim begitu request yang sedang jalan selesai.
+  const run = useCallback(
+    (command: () => Promise<unknown>) => {
+      queuedRef.current = command;
+      if (inFlightRef.current) return;
+
+      const next = () => {
+        const current = queuedRef.current;
+        queuedRef.current = null;
+        inFlightRef.current = current !== null;
+        if (!current) return;
+        current()
+          .then(() => {
+            errorShownRef.current = false;
+          }, handleError)
+          .finally(next);
+      };
+      next();
+    },
+    [handleError]
+  );
+
+  const stop = useCallback(() => {
+    if (throttleTimer.current) clearTimeout(throttleTimer.current);
+    throttleTimer.current = null;
+    pendingRef.current = null;
+    if (!cameraId || !movingRef.current) return;
+    movingRef.current = false;
+    run(() => api.ptz.stop(cameraId));
+  }, [cameraId, run]);
+
+  const move = useCallback(
+    (velocity: PtzVelocity) => {
+      if (!cameraId) return;
+      if (isStopped(velocity)) {
+        stop();
+        return;
+      }
+
+      const send = (value: PtzVelocity) => {
+        lastSentRef.current = Date.now();
+        movingRef.current = true;
+        run(() => api.ptz.move(cameraId, value));
+      };
+
+      const wait = MOVE_THROTTLE - (Date.now() - lastSentRef.current);
+      if (wait <= 0) {
+        send(velocity);
+        return;
+      }
+
+      // kirim nilai terakhir setelah jeda throttle
+      pendingRef.current = velocity;
+      if (throttleTimer.current) return;
+      throttleTimer.current = setTimeout(() => {
+        throttleTimer.current = null;
+        if (pendingRef.current) send(pendingRef.current);
+        pendingRef.current = null;
+      }, wait);
+    },
+    [cameraId, run, stop]
+  );
+
+  const zoom = useCallback(
+    (speed: number) => {
+      if (!cameraId) return;
+      if (speed === 0) {
+        stop();
+        return;
+      }
+      movingRef.current = true;
+      run(() => api.ptz.zoom(cameraId, speed));
+    },
+    [cameraId, run, stop]
+  );
+
+  const gotoPreset = useCallback(
+    (presetId: string) => {
+      if (cameraId) run(() => api.ptz.gotoPreset(cameraId, presetId));
+    },
+    [cameraId, run]
+  );
+
+  const savePreset = useCallback(
+    async (name: string) => {
+      if (!cameraId) return;
+      try {
+        const preset = await api.ptz.savePreset(cameraId, name);
+        setPresets((current) => [...current, preset]);
+        toast.success(`Preset "${preset.name}" saved`);
+      } catch (error) {
+        handleError(error);
+      }
+    },
+    [cameraId, handleError]
+  );
+
+  useEffect(() => {
+    if (!cameraId || !enabled) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const result = await api.ptz.getPresets(cameraId);
+        if (mounted) setPresets(result);
+      } catch (error) {
+        console.error('Failed to load PTZ presets:', error);
+      }
+    })();
+    return () => {
+      mounted = false;
+      setPresets([]);
+    };
+  }, [cameraId, enabled]);
+
+  // kamera jangan dibiarkan berputar kalau kontrol hilang di tengah gerakan
+  useEffect(() => {
+    if (!enabled) return;
+    return () => stop();
+  }, [enabled, stop]);
+
+  useEffect(() => {
+    if (!enabled || !keyboard) return;
+    const held = new Set<string>();
+
+    const update = () => {
+      const velocity = Array.from(held).reduce(
+        (sum, key) => ({ pan: sum.pan + ARROW_KEYS[key].pan, tilt: sum.tilt + ARROW_KEYS[key].tilt }),
+        { pan: 0, tilt: 0 }
+      );
+      move({ pan: Math.sign(velocity.pan) * KEY_SPEED, tilt: Math.sign(velocity.tilt) * KEY_SPEED });
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      if (ARROW_KEYS[e.key]) {
+        e.preventDefault();
+        if (held.has(e.key)) return;
+        held.add(e.key);
+        update();
+      } else if ((e.key === '+' || e.key === '=') && !e.repeat) {
+        zoom(KEY_ZOOM_SPEED);
+      } else if (e.key === '-' && !e.repeat) {
+        zoom(-KEY_ZOOM_SPEED);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (ARROW_KEYS[e.key] && held.delete(e.key)) update();
+      else if (e.key === '+' || e.key === '=' || e.key === '-') zoom(0);
+    };
+
+    const handleBlur = () => {
+      held.clear();
+      stop();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [enabled, keyboard, move, zoom, stop]);
+
+  return { presets, move, stop, zoom, gotoPreset, savePreset };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { Camera } from '@/types/camera';
+import { acquireStream, releaseStream } from '@/lib/streamLeases';
+
+type StreamUrls = Pick<Camera, 'hls_url' | 'webrtc_url'>;
+
+// Minta backend mulai transcoding selama `active`; kembalikan URL stream terbaru.
+// URL terakhir tetap dikembalikan setelah lease dilepas supaya player tidak di-recreate.
+export function useStreamLease(camera: Camera | null | undefined, active: boolean) {
+  const [urls, setUrls] = useState<StreamUrls | null>(null);
+  const cameraId = camera?.id;
+
+  useEffect(() => {
+    setUrls(null);
+  }, [cameraId]);
+
+  useEffect(() => {
+    if (!active || !camera) return;
+
+    let cancelled = false;
+    acquireStream(camera.id)
+      .then((started) => {
+        if (cancelled) return;
+        setUrls({
+          hls_url: started.hls_url || camera.hls_url,
+          webrtc_url: started.webrtc_url || camera.webrtc_url,
+        });
+      })
+      .catch((error) => {
+        // backend menolak / endpoint tidak ada → coba URL yang sudah diketahui
+        console.warn(`startStream failed for camera ${camera.id}, using known URLs:`, error);
+        if (!cancelled) setUrls({ hls_url: camera.hls_url, webrtc_url: camera.webrtc_url });
+      });
+
+    return () => {
+      cancelled = true;
+      releaseStream(camera.id);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, cameraId]);
+
+  return urls;
+}
@@ -0,0 +1,28 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// true kalau elemen terlihat di viewport DAN tab browser sedang aktif.
+// (mode "Map Only" tidak perlu ditangani di sini: grid di-unmount oleh SplitPane)
+export function useTileVisibility(ref: RefObject<Element>, rootMargin = '100px') {
+  const [inViewport, setInViewport] = useState(true);
+  const [tabVisible, setTabVisible] = useState(() => document.visibilityState === 'visible');
+
+  useEffect(() => {
+    const onVisibilityChange = () => setTabVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setInViewport(entry.isIntersecting),
+      { rootMargin }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref, rootMargin]);
+
+  return inViewport && tabVisible;
+}
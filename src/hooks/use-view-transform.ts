@@ -0,0 +1,35 @@
+import { RefObject, useEffect, useMemo, useState } from 'react';
+import { ZoomState } from '@/lib/digitalZoom';
+import { BoxSize, isQuarterTurn, resolveViewTransform, viewFilter, viewMediaStyle } from '@/lib/viewTransform';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+
+// Pengaturan tampilan tersimpan untuk kamera + style siap pakai untuk elemen media
+export function useViewTransform(
+  containerRef: RefObject<HTMLElement>,
+  cameraId: string | undefined,
+  zoom?: ZoomState
+) {
+  const stored = useCameraPrefs((s) => (cameraId ? s.prefs[cameraId]?.view : undefined));
+  const view = useMemo(() => resolveViewTransform(stored), [stored]);
+  const quarter = isQuarterTurn(view.rotation);
+  const [box, setBox] = useState<BoxSize | null>(null);
+
+  // ukuran container hanya dibutuhkan untuk rotasi 90/270
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || !quarter) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setBox({ width, height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [containerRef, quarter]);
+
+  return {
+    view,
+    style: viewMediaStyle(view, quarter ? box : null, zoom),
+    stillStyle: viewMediaStyle(view, quarter ? box : null), // snapshot: tanpa zoom digital
+    filter: viewFilter(view),
+  };
+}
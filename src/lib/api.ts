@@ -1,4 +1,14 @@
-import { Camera, CreateCameraRequest, UpdateCameraRequest, ApiResponse, PaginatedResponse } from '@/types/camera';
+import {
+  Camera,
+  CreateCameraRequest,
+  UpdateCameraRequest,
+  ApiResponse,
+  PaginatedResponse,
+  RecordingSegment,
+  RecordingPlayback,
+  PtzVelocity,
+  PtzPreset,
+} from '@/types/camera';
 
 const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:8080/api/v1';
 
@@ -201,7 +211,80 @@ export const cameraAPI = {
   },
 };
 
+// Recording API
+export const recordingAPI = {
+  async listSegments(cameraId: string, range: { from: Date; to: Date }): Promise<RecordingSegment[]> {
+    const queryParams = new URLSearchParams({
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+    });
+    const response = await http<ApiResponse<RecordingSegment[]>>(
+      `/cameras/${cameraId}/recordings?${queryParams.toString()}`
+    );
+    return response.data;
+  },
+
+  // playlist VOD untuk rentang waktu tertentu (biasanya satu segmen)
+  async getPlayback(cameraId: string, range: { from: Date; to: Date }): Promise<RecordingPlayback> {
+    const queryParams = new URLSearchParams({
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+    });
+    const response = await http<ApiResponse<RecordingPlayback>>(
+      `/cameras/${cameraId}/recordings/playback?${queryParams.toString()}`
+    );
+    return response.data;
+  },
+};
+
+// PTZ API
+export const ptzAPI = {
+  // gerak terus-menerus sampai stop() dipanggil
+  async move(cameraId: string, velocity: PtzVelocity): Promise<void> {
+    await http<ApiResponse<void>>(`/cameras/${cameraId}/ptz/move`, {
+      method: 'POST',
+      body: JSON.stringify(velocity),
+    });
+  },
+
+  async stop(cameraId: string): Promise<void> {
+    await http<ApiResponse<void>>(`/cameras/${cameraId}/ptz/stop`, {
+      method: 'POST',
+    });
+  },
+
+  // speed -1..1: positif = zoom in, negatif = zoom out; berhenti lewat stop()
+  async zoom(cameraId: string, speed: number): Promise<void> {
+    await http<ApiResponse<void>>(`/cameras/${cameraId}/ptz/zoom`, {
+      method: 'POST',
+      body: JSON.stringify({ speed }),
+    });
+  },
+
+  async getPresets(cameraId: string): Promise<PtzPreset[]> {
+    const response = await http<ApiResponse<PtzPreset[]>>(`/cameras/${cameraId}/ptz/presets`);
+    return response.data;
+  },
+
+  async gotoPreset(cameraId: string, presetId: string): Promise<void> {
+    await http<ApiResponse<void>>(`/cameras/${cameraId}/ptz/presets/${presetId}/goto`, {
+      method: 'POST',
+    });
+  },
+
+  // simpan posisi sekarang sebagai preset baru
+  async savePreset(cameraId: string, name: string): Promise<PtzPreset> {
+    const response = await http<ApiResponse<PtzPreset>>(`/cameras/${cameraId}/ptz/presets`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+    return response.data;
+  },
+};
+
 export const api = {
   auth: authAPI,
   cameras: cameraAPI,
+  recordings: recordingAPI,
+  ptz: ptzAPI,
 };
\ No newline at end of file
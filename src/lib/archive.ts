@@ -0,0 +1,48 @@
+// Helper timeline arsip: segmen rekaman vs gap dalam satu hari
+import { addDays, startOfDay } from 'date-fns';
+import { RecordingSegment } from '@/types/camera';
+
+export const PLAYBACK_RATES = [0.5, 1, 2, 4, 8, 16];
+
+export interface TimelineRange {
+  start: number;      // epoch ms
+  end: number;        // epoch ms
+  recorded: boolean;
+}
+
+export const getDayRange = (day: Date) => {
+  const from = startOfDay(day);
+  return { from, to: addDays(from, 1) };
+};
+
+export const segmentStart = (segment: RecordingSegment) => new Date(segment.start_time).getTime();
+export const segmentEnd = (segment: RecordingSegment) => new Date(segment.end_time).getTime();
+
+export const sortSegments = (segments: RecordingSegment[]) =>
+  [...segments].sort((a, b) => segmentStart(a) - segmentStart(b));
+
+export const findSegmentAt = (segments: RecordingSegment[], time: number) =>
+  segments.find((segment) => segmentStart(segment) <= time && time < segmentEnd(segment));
+
+// segmen berikutnya yang mulai pada / setelah `time` (segments harus terurut)
+export const findNextSegment = (segments: RecordingSegment[], time: number) =>
+  segments.find((segment) => segmentStart(segment) >= time);
+
+// Bagi [from, to) menjadi rentang recorded & gap berurutan, segmen di-clip ke rentang hari
+export const buildTimeline = (segments: RecordingSegment[], from: number, to: number): TimelineRange[] => {
+  const ranges: TimelineRange[] = [];
+  let cursor = from;
+
+  for (const segment of sortSegments(segments)) {
+    const start = Math.max(from, segmentStart(segment));
+    const end = Math.min(to, segmentEnd(segment));
+    if (end <= start || end <= cursor) continue;
+
+    if (start > cursor) ranges.push({ start: cursor, end: start, recorded: false });
+    ranges.push({ start: Math.max(start, cursor), end, recorded: true });
+    cursor = end;
+  }
+
+  if (cursor < to) ranges.push({ start: cursor, end: to, recorded: false });
+  return ranges;
+};
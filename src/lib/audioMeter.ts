@@ -0,0 +1,77 @@
+// Pengukur level audio untuk tile yang sedang bersuara (Web Audio AnalyserNode)
+
+type AudioContextConstructor = typeof AudioContext;
+
+const FFT_SIZE = 1024;
+const FLOOR_DB = -60; // di bawah ini dianggap hening
+
+let context: AudioContext | null = null;
+// satu elemen media hanya boleh punya satu MediaElementSourceNode seumur hidupnya
+const elementAnalysers = new WeakMap<HTMLMediaElement, AnalyserNode>();
+const streamAnalysers = new WeakMap<MediaStream, AnalyserNode>();
+
+const getContext = () => {
+  if (!context) {
+    const Ctor =
+      window.AudioContext ??
+      (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+    if (!Ctor) return null;
+    context = new Ctor();
+  }
+  // context baru bisa jalan setelah ada interaksi user (klik unmute)
+  if (context.state === 'suspended') context.resume().catch(() => {});
+  return context;
+};
+
+const createAnalyser = (ctx: AudioContext) => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.6;
+  return analyser;
+};
+
+/**
+ * Analyser untuk audio yang sedang diputar elemen video.
+ * null = tidak bisa diukur (Web Audio tidak ada, stream tanpa track audio,
+ * atau source cross-origin yang akan bisu kalau dilewatkan Web Audio).
+ */
+export const getAudioAnalyser = (video: HTMLVideoElement): AnalyserNode | null => {
+  const ctx = getContext();
+  if (!ctx) return null;
+
+  // WebRTC: analisis langsung dari MediaStream, suara tetap keluar lewat elemen video
+  const stream = video.srcObject;
+  if (stream instanceof MediaStream) {
+    if (stream.getAudioTracks().length === 0) return null;
+    let analyser = streamAnalysers.get(stream);
+    if (!analyser) {
+      analyser = createAnalyser(ctx);
+      ctx.createMediaStreamSource(stream).connect(analyser);
+      streamAnalysers.set(stream, analyser);
+    }
+    return analyser;
+  }
+
+  // HLS via MSE (blob:) aman dilewatkan Web Audio; source elemen lalu diteruskan ke speaker
+  let analyser = elementAnalysers.get(video);
+  if (!analyser) {
+    if (!video.currentSrc.startsWith('blob:')) return null;
+    analyser = createAnalyser(ctx);
+    ctx.createMediaElementSource(video).connect(analyser);
+    analyser.connect(ctx.destination);
+    elementAnalysers.set(video, analyser);
+  }
+  return analyser;
+};
+
+// Level RMS dipetakan ke 0..1 dalam skala dB
+export const readAudioLevel = (analyser: AnalyserNode) => {
+  const samples = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+};
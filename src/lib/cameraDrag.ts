@@ -0,0 +1,13 @@
+// Drag & drop kamera ke sel grid (dari tile lain, daftar kamera, atau popup peta)
+
+const CAMERA_DRAG_TYPE = 'application/x-cctv-camera';
+
+export const setCameraDragData = (dataTransfer: DataTransfer, cameraId: string) => {
+  dataTransfer.setData(CAMERA_DRAG_TYPE, cameraId);
+  dataTransfer.setData('text/plain', cameraId);
+  dataTransfer.effectAllowed = 'move';
+};
+
+export const hasCameraDragData = (dataTransfer: DataTransfer) => dataTransfer.types.includes(CAMERA_DRAG_TYPE);
+
+export const getCameraDragData = (dataTransfer: DataTransfer) => dataTransfer.getData(CAMERA_DRAG_TYPE) || null;
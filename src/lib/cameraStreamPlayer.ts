@@ -0,0 +1,164 @@
+// src/lib/cameraStreamPlayer.ts
+// Memilih implementasi player per kamera (HLS / WebRTC) dan menangani fallback otomatis.
+import { Camera } from '@/types/camera';
+import { HlsPlayer, HlsPlayerOptions } from './hlsPlayer';
+import { WebRtcPlayer, WebRtcPlayerOptions } from './webrtcPlayer';
+import { PlayerEmitter, PlayerEventMap, PlayerState } from './playerEvents';
+import type { StreamPlayer, StreamProtocol, StreamProtocolPreference } from './streamPlayer';
+
+export type StreamSources = Pick<Camera, 'hls_url' | 'webrtc_url'>;
+
+export interface CameraStreamPlayerOptions {
+  hls?: HlsPlayerOptions;
+  webrtc?: WebRtcPlayerOptions;
+}
+
+export const hasStreamSource = (sources: StreamSources) =>
+  Boolean(sources.hls_url || sources.webrtc_url);
+
+export const resolveProtocol = (
+  sources: StreamSources,
+  preference: StreamProtocolPreference
+): StreamProtocol | null => {
+  if (preference !== 'hls' && sources.webrtc_url) return 'webrtc';
+  if (sources.hls_url) return 'hls';
+  return null;
+};
+
+export class CameraStreamPlayer {
+  private video: HTMLVideoElement;
+  private options: CameraStreamPlayerOptions;
+  private player: StreamPlayer | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private events = new PlayerEmitter<PlayerEventMap>();
+  private sources: StreamSources = {};
+  private preference: StreamProtocolPreference = 'hls';
+
+  constructor(video: HTMLVideoElement, options: CameraStreamPlayerOptions = {}) {
+    this.video = video;
+    this.options = options;
+  }
+
+  get protocol(): StreamProtocol | null {
+    return this.player?.protocol ?? null;
+  }
+
+  // player aktif, untuk fitur yang spesifik protokol
+  get current(): StreamPlayer | null {
+    return this.player;
+  }
+
+  on<K extends keyof PlayerEventMap>(event: K, callback: (payload: PlayerEventMap[K]) => void) {
+    return this.events.on(event, callback);
+  }
+
+  getState(): PlayerState {
+    return this.player?.getState() ?? 'idle';
+  }
+
+  getStats() {
+    return this.player?.getStats() ?? null;
+  }
+
+  getLiveWindow() {
+    return this.player?.getLiveWindow() ?? null;
+  }
+
+  seekBy(seconds: number) {
+    this.player?.seekBy(seconds);
+  }
+
+  seekToLive() {
+    this.player?.seekToLive();
+  }
+
+  getLevels() {
+    return this.player?.getLevels() ?? [];
+  }
+
+  getSelectedLevel() {
+    return this.player?.getSelectedLevel() ?? -1;
+  }
+
+  setLevel(level: number) {
+    this.player?.setLevel(level);
+  }
+
+  load(sources: StreamSources, preference: StreamProtocolPreference) {
+    this.sources = sources;
+    this.preference = preference;
+
+    const protocol = resolveProtocol(sources, preference);
+    if (!protocol) {
+      console.error('Camera has no playable stream URL');
+      return;
+    }
+    this.attach(protocol);
+  }
+
+  retry() {
+    this.load(this.sources, this.preference);
+  }
+
+  private attach(protocol: StreamProtocol, reason?: string) {
+    this.detach();
+
+    // mode auto: WebRTC gagal sekali → langsung pindah ke HLS
+    const canFallback = protocol === 'webrtc' && this.preference === 'auto' && Boolean(this.sources.hls_url);
+
+    const player: StreamPlayer =
+      protocol === 'webrtc'
+        ? new WebRtcPlayer(this.video, {
+            ...this.options.webrtc,
+            ...(canFallback && { recovery: { maxAttempts: 0 } }),
+          })
+        : new HlsPlayer(this.video, this.options.hls);
+
+    this.unsubscribers = [
+      player.on('state', (payload) => {
+        if (canFallback && payload.state === 'failed') return;
+        this.events.emit('state', payload);
+      }),
+      player.on('levels', (payload) => this.events.emit('levels', payload)),
+      player.on('levelSwitched', (payload) => this.events.emit('levelSwitched', payload)),
+      player.on('stall', (payload) => this.events.emit('stall', payload)),
+      player.on('fatalError', (payload) => this.events.emit('fatalError', payload)),
+      player.on('gaveUp', (payload) => {
+        if (canFallback) {
+          console.warn('WebRTC failed, falling back to HLS:', payload.details);
+          this.attach('hls', payload.details);
+          return;
+        }
+        this.events.emit('gaveUp', payload);
+      }),
+    ];
+
+    this.player = player;
+    this.events.emit('protocolChanged', { protocol, reason });
+    player.load(protocol === 'webrtc' ? this.sources.webrtc_url! : this.sources.hls_url!);
+  }
+
+  private detach() {
+    this.unsubscribers.forEach((off) => off());
+    this.unsubscribers = [];
+    this.player?.destroy();
+    this.player = null;
+  }
+
+  play() {
+    return this.player?.play() ?? Promise.resolve();
+  }
+
+  pause() {
+    this.player?.pause();
+  }
+
+  resume() {
+    this.player?.resume();
+  }
+
+  destroy() {
+    this.detach();
+    this.events.clear();
+  }
+}
@@ -0,0 +1,70 @@
+// Pemetaan eksplisit sel grid → kamera (null = sel kosong)
+
+export type CellAssignments = (string | null)[];
+
+// Sel yang bergiliran menampilkan beberapa kamera dengan timer sendiri
+export interface CellSequence {
+  cameraIds: string[];
+  dwellSeconds: number;
+}
+
+export type CellSequences = Record<number, CellSequence>; // key = index sel
+
+export const SEQUENCE_DWELL_OPTIONS = [5, 10, 15, 30, 60];
+
+// sequence untuk sel di luar layout sekarang tetap disimpan, hanya tidak jalan
+export const resolveActiveSequences = (sequences: CellSequences, count: number): CellSequences =>
+  Object.fromEntries(
+    Object.entries(sequences).filter(([cell, seq]) => Number(cell) < count && seq.cameraIds.length > 0)
+  );
+
+/**
+ * Sinkronkan pemetaan tersimpan dengan kamera yang dipilih:
+ * kamera yang tidak dipilih lagi dilepas, kamera baru mengisi sel kosong pertama.
+ * Kamera yang tidak kebagian sel disimpan setelah `count` (tidak tampil).
+ */
+export const arrangeCells = (
+  cells: CellAssignments,
+  selectedIds: string[],
+  count: number,
+  reserved: number[] = [] // sel yang dipakai sequence, tidak diisi kamera tetap
+): CellAssignments => {
+  const selected = new Set(selectedIds);
+  const placed = new Set<string>();
+  const result: CellAssignments = Array.from({ length: Math.max(count, cells.length) }, (_, i) => {
+    const id = cells[i] ?? null;
+    if (!id || !selected.has(id) || placed.has(id) || reserved.includes(i)) return null;
+    placed.add(id);
+    return id;
+  });
+
+  selectedIds.forEach((id) => {
+    if (placed.has(id)) return;
+    placed.add(id);
+    const empty = result.findIndex((cell, i) => cell === null && i < count && !reserved.includes(i));
+    if (empty >= 0) result[empty] = id;
+    else result.push(id);
+  });
+
+  while (result.length > count && result[result.length - 1] === null) result.pop();
+  return result;
+};
+
+/**
+ * Taruh kamera di sel tujuan. Kamera yang sudah ada di grid ditukar posisinya;
+ * kamera dari luar grid menggantikan isi sel (yang tergeser dikembalikan di `replaced`).
+ */
+export const placeCamera = (cells: CellAssignments, cameraId: string, target: number) => {
+  const next = [...cells];
+  while (next.length <= target) next.push(null);
+  const from = next.indexOf(cameraId);
+  const occupant = next[target];
+
+  if (from >= 0) {
+    next[from] = occupant;
+    next[target] = cameraId;
+    return { cells: next, replaced: null };
+  }
+  next[target] = cameraId;
+  return { cells: next, replaced: occupant };
+};
@@ -0,0 +1,65 @@
+// Rekam elemen <video> live ke WebM di browser (belum ada API recording di backend)
+import { format } from 'date-fns';
+import { Camera } from '@/types/camera';
+import { slugify } from './utils';
+
+export const DEFAULT_MAX_CLIP_SECONDS = 60;
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+export const isClipRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  ('captureStream' in HTMLMediaElement.prototype || 'mozCaptureStream' in HTMLMediaElement.prototype);
+
+export const clipFileName = (camera: Camera, startedAt: Date, endedAt: Date) =>
+  `${slugify(camera.name)}_${format(startedAt, 'yyyyMMdd-HHmmss')}-${format(endedAt, 'HHmmss')}.webm`;
+
+export interface ClipRecording {
+  startedAt: Date;
+  stop: () => void;
+}
+
+export const startClipRecording = (
+  video: HTMLVideoElement,
+  {
+    maxSeconds = DEFAULT_MAX_CLIP_SECONDS,
+    onComplete,
+  }: {
+    maxSeconds?: number;
+    onComplete: (blob: Blob, startedAt: Date, endedAt: Date) => void;
+  }
+): ClipRecording => {
+  const capturable = video as CapturableVideo;
+  const stream = capturable.captureStream?.() ?? capturable.mozCaptureStream?.();
+  if (!stream || typeof MediaRecorder === 'undefined') {
+    throw new Error('Clip recording is not supported in this browser');
+  }
+
+  const mimeType = MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = new Date();
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.onstop = () => {
+    clearTimeout(limitTimer);
+    onComplete(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }), startedAt, new Date());
+  };
+
+  // batas durasi supaya file tidak membengkak kalau operator lupa stop
+  const limitTimer = setTimeout(() => stop(), maxSeconds * 1000);
+  recorder.start(1000);
+
+  function stop() {
+    if (recorder.state !== 'inactive') recorder.stop();
+  }
+
+  return { startedAt, stop };
+};
@@ -0,0 +1,42 @@
+// Matematika zoom digital: state dinormalisasi terhadap ukuran elemen (0..1) supaya
+// tidak tergantung resolusi tile dan bisa disimpan per kamera.
+
+export interface ZoomState {
+  scale: number;   // 1 = tanpa zoom
+  x: number;       // pusat area terlihat, 0..1 dari lebar frame
+  y: number;       // pusat area terlihat, 0..1 dari tinggi frame
+}
+
+export const DEFAULT_ZOOM: ZoomState = { scale: 1, x: 0.5, y: 0.5 };
+export const MAX_ZOOM = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// jaga supaya area terlihat tidak keluar dari frame
+export const clampZoom = ({ scale, x, y }: ZoomState): ZoomState => {
+  const s = clamp(scale, 1, MAX_ZOOM);
+  const half = 1 / (2 * s);
+  return { scale: s, x: clamp(x, half, 1 - half), y: clamp(y, half, 1 - half) };
+};
+
+// zoom dengan titik `anchor` (koordinat layar 0..1) tetap di bawah kursor / jari
+export const zoomAt = (state: ZoomState, scale: number, anchor: { x: number; y: number }): ZoomState => {
+  const pointX = state.x + (anchor.x - 0.5) / state.scale;
+  const pointY = state.y + (anchor.y - 0.5) / state.scale;
+  const next = clamp(scale, 1, MAX_ZOOM);
+  return clampZoom({
+    scale: next,
+    x: pointX - (anchor.x - 0.5) / next,
+    y: pointY - (anchor.y - 0.5) / next,
+  });
+};
+
+// geser sejauh (dx, dy) dalam satuan layar 0..1
+export const panBy = (state: ZoomState, dx: number, dy: number): ZoomState =>
+  clampZoom({ ...state, x: state.x - dx / state.scale, y: state.y - dy / state.scale });
+
+export const isZoomed = (state: ZoomState) => state.scale > 1.001;
+
+// transform CSS untuk elemen video (transform-origin: center)
+export const zoomTransform = ({ scale, x, y }: ZoomState) =>
+  `scale(${scale}) translate(${(0.5 - x) * 100}%, ${(0.5 - y) * 100}%)`;
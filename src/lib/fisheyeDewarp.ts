@@ -0,0 +1,238 @@
+import { Camera } from '@/types/camera';
+
+// Dewarp kamera fisheye plafon (equidistant, 180°) dengan WebGL
+
+export type DewarpMode = 'original' | 'panorama' | 'quad' | 'perspective';
+
+export const DEWARP_MODES: { id: DewarpMode; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'panorama', label: 'Panorama' },
+  { id: 'quad', label: 'Quad View' },
+  { id: 'perspective', label: 'Perspective' },
+];
+
+// Kamera fisheye default tampil sebagai panorama; lensa biasa tidak pernah di-dewarp
+export const resolveDewarpMode = (camera: Camera | null | undefined, preferred?: DewarpMode): DewarpMode =>
+  camera?.lens_type === 'fisheye' ? preferred ?? 'panorama' : 'original';
+
+// Virtual PTZ untuk mode perspective (radian)
+export interface PerspectiveView {
+  pan: number;   // azimuth mengelilingi sumbu lensa
+  tilt: number;  // 0 = lurus ke bawah (tengah lingkaran), π/2 = horizon
+  fov: number;
+}
+
+export const DEFAULT_PERSPECTIVE: PerspectiveView = { pan: 0, tilt: Math.PI / 4, fov: (80 * Math.PI) / 180 };
+
+const MIN_TILT = 0;
+const MAX_TILT = (85 * Math.PI) / 180;
+const MIN_FOV = (30 * Math.PI) / 180;
+const MAX_FOV = (120 * Math.PI) / 180;
+
+export const clampPerspective = ({ pan, tilt, fov }: PerspectiveView): PerspectiveView => ({
+  pan: ((pan % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI),
+  tilt: Math.min(MAX_TILT, Math.max(MIN_TILT, tilt)),
+  fov: Math.min(MAX_FOV, Math.max(MIN_FOV, fov)),
+});
+
+// Drag "menggeser gambar": geser ke kanan → pandangan berputar ke kiri
+export const dragPerspective = (view: PerspectiveView, dx: number, dy: number, width: number, height: number) =>
+  clampPerspective({
+    ...view,
+    pan: view.pan - (dx / width) * view.fov * (width / height),
+    tilt: view.tilt + (dy / height) * view.fov,
+  });
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_frame;
+uniform vec2 u_radius;    // radius lingkaran fisheye dalam koordinat tekstur
+uniform int u_mode;       // 0 panorama, 1 quad, 2 perspective
+uniform vec3 u_view;      // pan, tilt, fov
+uniform float u_aspect;   // lebar / tinggi output
+varying vec2 v_uv;        // 0..1, y = 0 di atas
+
+const float PI = 3.14159265;
+
+vec2 lensPoint(vec3 dir) {
+  float theta = acos(clamp(dir.z, -1.0, 1.0));
+  float phi = atan(dir.y, dir.x);
+  return vec2(0.5) + (theta / (PI * 0.5)) * vec2(cos(phi), sin(phi)) * u_radius;
+}
+
+vec3 perspectiveRay(vec2 uv, vec3 view, float aspect) {
+  vec2 p = (uv * 2.0 - 1.0) * tan(view.z * 0.5);
+  p.x *= aspect;
+  vec3 ray = normalize(vec3(p, 1.0));
+  float ct = cos(view.y);
+  float st = sin(view.y);
+  ray = vec3(ray.x, ray.y * ct - ray.z * st, ray.y * st + ray.z * ct);
+  float cp = cos(view.x);
+  float sp = sin(view.x);
+  return vec3(ray.x * cp - ray.y * sp, ray.x * sp + ray.y * cp, ray.z);
+}
+
+void main() {
+  vec2 point;
+  if (u_mode == 0) {
+    // atas = tepi lingkaran (horizon), bawah = dekat tengah
+    float phi = (v_uv.x - 0.5) * 2.0 * PI - PI * 0.5;
+    float r = mix(1.0, 0.15, v_uv.y);
+    point = vec2(0.5) + r * vec2(cos(phi), sin(phi)) * u_radius;
+  } else if (u_mode == 1) {
+    vec2 cell = floor(v_uv * 2.0);
+    float index = cell.x + cell.y * 2.0;
+    float pan = index == 2.0 ? 1.5 * PI : index == 3.0 ? PI : index * 0.5 * PI;
+    point = lensPoint(perspectiveRay(fract(v_uv * 2.0), vec3(pan, 0.95, 1.4), u_aspect));
+  } else {
+    point = lensPoint(perspectiveRay(v_uv, u_view, u_aspect));
+  }
+
+  if (point.x < 0.0 || point.x > 1.0 || point.y < 0.0 || point.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+  } else {
+    gl_FragColor = texture2D(u_frame, point);
+  }
+}
+`;
+
+const MODE_INDEX: Record<Exclude<DewarpMode, 'original'>, number> = {
+  panorama: 0,
+  quad: 1,
+  perspective: 2,
+};
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Failed to create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+/**
+ * Menggambar frame video fisheye ter-dewarp ke canvas tiap animation frame.
+ * Video tetap jadi sumber (audio, snapshot, rekam klip); canvas hanya tampilan.
+ * Gagal upload frame (mis. video cross-origin) menghentikan loop dan memanggil `onError` sekali.
+ */
+export class FisheyeRenderer {
+  private gl: WebGLRenderingContext;
+  private program: WebGLProgram;
+  private texture: WebGLTexture;
+  private buffer: WebGLBuffer;
+  private uniforms: Record<'radius' | 'mode' | 'view' | 'aspect', WebGLUniformLocation | null>;
+  private mode: Exclude<DewarpMode, 'original'> = 'panorama';
+  private view: PerspectiveView = DEFAULT_PERSPECTIVE;
+  private frameId: number | null = null;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private video: HTMLVideoElement,
+    private onError?: (error: Error) => void
+  ) {
+    const gl = canvas.getContext('webgl');
+    if (!gl) throw new Error('WebGL is not supported in this browser');
+    this.gl = gl;
+
+    const program = gl.createProgram();
+    const texture = gl.createTexture();
+    const buffer = gl.createBuffer();
+    if (!program || !texture || !buffer) throw new Error('Failed to initialize WebGL');
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    this.program = program;
+    this.texture = texture;
+    this.buffer = buffer;
+
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    // frame video bukan power-of-two → tanpa mipmap, clamp
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+    this.uniforms = {
+      radius: gl.getUniformLocation(program, 'u_radius'),
+      mode: gl.getUniformLocation(program, 'u_mode'),
+      view: gl.getUniformLocation(program, 'u_view'),
+      aspect: gl.getUniformLocation(program, 'u_aspect'),
+    };
+
+    this.frameId = requestAnimationFrame(this.render);
+  }
+
+  setMode(mode: Exclude<DewarpMode, 'original'>) {
+    this.mode = mode;
+  }
+
+  setView(view: PerspectiveView) {
+    this.view = view;
+  }
+
+  private render = () => {
+    this.frameId = requestAnimationFrame(this.render);
+    const { gl, video, canvas } = this;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+    const height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    try {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, video);
+    } catch (error) {
+      // frame sudah siap (dicek di atas) → kegagalan permanen, biasanya video cross-origin
+      if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+      this.onError?.(error instanceof Error ? error : new Error('Cannot read video frames'));
+      return;
+    }
+
+    // lingkaran fisheye diasumsikan di tengah frame, diameter = sisi terpendek
+    const radius = Math.min(video.videoWidth, video.videoHeight) / 2;
+    gl.uniform2f(this.uniforms.radius, radius / video.videoWidth, radius / video.videoHeight);
+    gl.uniform1i(this.uniforms.mode, MODE_INDEX[this.mode]);
+    gl.uniform3f(this.uniforms.view, this.view.pan, this.view.tilt, this.view.fov);
+    gl.uniform1f(this.uniforms.aspect, width / height);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  destroy() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.gl.deleteTexture(this.texture);
+    this.gl.deleteBuffer(this.buffer);
+    this.gl.deleteProgram(this.program);
+  }
+}
@@ -0,0 +1,76 @@
+import { CustomGridLayout, GRID_LAYOUTS, GridLayout, GridTile, PresetGridLayout } from '@/types/camera';
+
+export const MAX_GRID_SIZE = 8;
+
+export interface ResolvedGridLayout {
+  cols: number;
+  rows: number;
+  tiles: GridTile[]; // urutan = urutan kamera
+  label: string;
+}
+
+export const isCustomLayout = (layout: GridLayout): layout is CustomGridLayout['id'] => layout.startsWith('custom:');
+
+// suffix acak: timestamp saja bisa bentrok kalau dua layout dibuat di milidetik yang sama
+export const createCustomLayoutId = (): CustomGridLayout['id'] =>
+  `custom:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const uniformTiles = (cols: number, rows: number): GridTile[] =>
+  Array.from({ length: cols * rows }, (_, i) => ({
+    col: i % cols,
+    row: Math.floor(i / cols),
+    colSpan: 1,
+    rowSpan: 1,
+  }));
+
+// kamera diisi per baris, kiri ke kanan, mengikuti pojok kiri-atas tiap tile
+export const sortTiles = (tiles: GridTile[]) => [...tiles].sort((a, b) => a.row - b.row || a.col - b.col);
+
+const presetLayout = (layout: PresetGridLayout): ResolvedGridLayout => {
+  const { cols, rows } = GRID_LAYOUTS[layout];
+  return { cols, rows, tiles: uniformTiles(cols, rows), label: layout.replace('x', '×') };
+};
+
+// Layout custom yang sudah dihapus jatuh kembali ke 2×2
+export const resolveGridLayout = (layout: GridLayout, customLayouts: CustomGridLayout[]): ResolvedGridLayout => {
+  if (!isCustomLayout(layout)) return presetLayout(layout);
+  const custom = customLayouts.find((item) => item.id === layout);
+  if (!custom) return presetLayout('2x2');
+  return { cols: custom.cols, rows: custom.rows, tiles: sortTiles(custom.tiles), label: custom.name };
+};
+
+export const tileGridArea = ({ col, row, colSpan, rowSpan }: GridTile) =>
+  `${row + 1} / ${col + 1} / span ${rowSpan} / span ${colSpan}`;
+
+/**
+ * Gabung tile terpilih menjadi satu persegi panjang.
+ * null kalau kotak gabungannya memotong tile lain yang tidak ikut dipilih.
+ */
+export const mergeTiles = (tiles: GridTile[], indexes: number[]): GridTile[] | null => {
+  if (indexes.length < 2) return null;
+  const selected = indexes.map((i) => tiles[i]);
+  const col = Math.min(...selected.map((t) => t.col));
+  const row = Math.min(...selected.map((t) => t.row));
+  const colEnd = Math.max(...selected.map((t) => t.col + t.colSpan));
+  const rowEnd = Math.max(...selected.map((t) => t.row + t.rowSpan));
+
+  const overlapsOther = tiles.some(
+    (t, i) =>
+      !indexes.includes(i) && t.col < colEnd && t.col + t.colSpan > col && t.row < rowEnd && t.row + t.rowSpan > row
+  );
+  if (overlapsOther) return null;
+
+  const merged: GridTile = { col, row, colSpan: colEnd - col, rowSpan: rowEnd - row };
+  return sortTiles([...tiles.filter((_, i) => !indexes.includes(i)), merged]);
+};
+
+// Pecah tile gabungan kembali ke sel 1×1
+export const splitTile = (tiles: GridTile[], index: number): GridTile[] => {
+  const tile = tiles[index];
+  const cells = uniformTiles(tile.colSpan, tile.rowSpan).map((cell) => ({
+    ...cell,
+    col: tile.col + cell.col,
+    row: tile.row + cell.row,
+  }));
+  return sortTiles([...tiles.filter((_, i) => i !== index), ...cells]);
+};
@@ -0,0 +1,14 @@
+// Guard tour: grid berganti otomatis per halaman kamera atau per saved view
+
+export const TOUR_DWELL_OPTIONS = [5, 10, 15, 30, 60, 120]; // detik per langkah
+
+// setelah operator berhenti berinteraksi, tour jalan lagi sendiri
+export const INTERACTION_RESUME_MS = 20_000;
+
+export const tourPageCount = (cameraCount: number, pageSize: number) =>
+  Math.max(1, Math.ceil(cameraCount / Math.max(1, pageSize)));
+
+export const tourPage = (cameraIds: string[], pageSize: number, page: number) =>
+  cameraIds.slice(page * pageSize, (page + 1) * pageSize);
+
+export const wrapStep = (step: number, count: number) => (count > 0 ? ((step % count) + count) % count : 0);
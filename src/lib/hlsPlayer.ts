@@ -1,50 +1,130 @@
 // src/lib/hlsPlayer.ts
 import Hls from 'hls.js';
+import { PlayerEmitter, PlayerEventMap, PlayerLevelInfo, PlayerState } from './playerEvents';
+import { DEFAULT_RECOVERY_POLICY, RecoveryPolicy, getRecoveryDelay } from './recoveryPolicy';
+import type { LiveWindow, StreamPlayer, StreamStats } from './streamPlayer';
+import { DEFAULT_PLAYBACK_PROFILE, PLAYBACK_PROFILES, PlaybackProfileId } from './playbackProfiles';
 
-export class HlsPlayer {
+export interface HlsPlayerOptions {
+  recovery?: Partial<RecoveryPolicy>;
+  profile?: PlaybackProfileId;
+}
+
+export class HlsPlayer implements StreamPlayer {
+  readonly protocol = 'hls' as const;
   private hls: Hls | null = null;
   private video: HTMLVideoElement;
+  private errors: StreamStats['errors'] = { network: 0, media: 0, other: 0, fatal: 0 };
+  private state: PlayerState = 'idle';
+  private events = new PlayerEmitter<PlayerEventMap>();
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private recovery: RecoveryPolicy;
+  private profile: PlaybackProfileId;
+  private attempts = 0;
+  private mediaRecoverStep = 0;
+  private seekToLiveOnUpdate = false;
+  private dvr = false;
+  private manualLevel = -1;     // pilihan operator, dipertahankan saat reload
 
-  constructor(video: HTMLVideoElement) {
+  constructor(video: HTMLVideoElement, options: HlsPlayerOptions = {}) {
     this.video = video;
+    this.recovery = { ...DEFAULT_RECOVERY_POLICY, ...options.recovery };
+    this.profile = options.profile ?? DEFAULT_PLAYBACK_PROFILE;
     // autoplay policy
     this.video.muted = true;
     this.video.playsInline = true;
     this.video.preload = 'auto';
+
+    this.video.addEventListener('playing', this.handlePlaying);
+    this.video.addEventListener('waiting', this.handleWaiting);
+    this.video.addEventListener('error', this.handleVideoError);
+  }
+
+  on<K extends keyof PlayerEventMap>(event: K, callback: (payload: PlayerEventMap[K]) => void) {
+    return this.events.on(event, callback);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  private setState(state: PlayerState) {
+    if (state === this.state) return;
+    const previous = this.state;
+    this.state = state;
+    this.events.emit('state', { state, previous });
   }
 
+  private handlePlaying = () => {
+    // berhasil main lagi → reset hitungan recovery
+    this.attempts = 0;
+    this.mediaRecoverStep = 0;
+    this.setState('playing');
+  };
+
+  private handleWaiting = () => {
+    // waiting saat loading awal tetap dianggap loading
+    if (this.state === 'playing') this.setState('buffering');
+  };
+
+  private handleVideoError = () => {
+    // hanya relevan untuk HLS native; hls.js melapor lewat Hls.Events.ERROR
+    if (!this.hls && this.state !== 'idle') this.setState('failed');
+  };
+
   load(url: string) {
-    this.destroy(); // pastikan bersih sebelum load ulang
+    this.attempts = 0;
+    this.mediaRecoverStep = 0;
+    this.dvr = false; // sumber baru selalu mulai dari live
+    this.start(url);
+  }
+
+  private start(url: string) {
+    this.teardown(); // pastikan bersih sebelum load ulang
+    this.setState('loading');
 
     if (Hls.isSupported()) {
+      const profile = PLAYBACK_PROFILES[this.profile];
       this.hls = new Hls({
-        // ==== penting untuk stabil ====
-        lowLatencyMode: false,             // ← pakai HLS standar (bukan LL-HLS)
         enableWorker: true,
-        liveSyncDurationCount: 3,          // target ~3 segmen dari live edge
-        liveMaxLatencyDurationCount: 5,    // toleransi keterlambatan
-        maxLiveSyncPlaybackRate: 1.0,      // jangan speed-up mengejar live
-        capLevelToPlayerSize: true,        // auto turunkan level sesuai ukuran video
-        maxBufferLength: 30,               // detik buffer maksimal
-        backBufferLength: 60,              // detik buffer belakang
-        maxBufferHole: 0.5,                // toleransi gap kecil
         fragLoadingTimeOut: 20000,
         manifestLoadingTimeOut: 20000,
-        // ==============================
+        ...profile.hls,
+        // reload saat recovery tidak boleh membatalkan rewind operator
+        ...(this.dvr && { liveMaxLatencyDurationCount: Infinity }),
       });
 
       this.hls.attachMedia(this.video);
       this.hls.loadSource(url);
 
-      this.hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      this.hls.on(Hls.Events.MANIFEST_PARSED, (_e, data) => {
+        if (profile.maxHeight && this.hls) {
+          // cap ABR ke level tertinggi yang masih <= maxHeight
+          let cap = -1;
+          data.levels.forEach((level, index) => {
+            if (level.height && level.height <= profile.maxHeight!) cap = index;
+          });
+          if (cap >= 0) this.hls.autoLevelCapping = cap;
+        }
+
+        if (this.hls) {
+          if (this.manualLevel >= this.hls.levels.length) this.manualLevel = -1;
+          if (this.manualLevel >= 0) this.hls.currentLevel = this.manualLevel;
+        }
+        this.events.emit('levels', { levels: this.getLevels() });
+
         // coba play; biarkan gagal diam2 kalau policy blok
         this.video.play().catch(() => {});
       });
 
       // Recovery & logging
       this.hls.on(Hls.Events.ERROR, (_evt, data) => {
+        this.countError(data.type, data.fatal);
+
         // Non-fatal stall → "nudging" tipis ke depan
         if (data.details === Hls.ErrorDetails.BUFFER_STALLED_ERROR) {
+          this.setState('stalled');
+          this.events.emit('stall', { position: this.video.currentTime });
           try {
             this.video.currentTime = this.video.currentTime + 0.01;
           } catch {}
@@ -53,26 +133,26 @@ export class HlsPlayer {
         if (!data.fatal) return;
 
         console.warn('HLS fatal error:', data.type, data.details);
+        this.events.emit('fatalError', { type: data.type, details: data.details });
+        this.recover(url, data.type, data.details);
+      });
 
-        switch (data.type) {
-          case Hls.ErrorTypes.NETWORK_ERROR:
-            // jaringan putus → coba lanjutkan loading
-            this.hls?.startLoad();
-            break;
-          case Hls.ErrorTypes.MEDIA_ERROR:
-            // demux/MediaSource error → recover
-            this.hls?.recoverMediaError();
-            break;
-          default:
-            // tidak bisa recover → reload sumber
-            this.reload(url);
-            break;
-        }
+      this.hls.on(Hls.Events.LEVEL_UPDATED, (_e, d) => {
+        // setelah resume dari suspend, lompat ke live edge (bukan lanjut dari posisi lama)
+        if (!this.seekToLiveOnUpdate || !d.details.live) return;
+        this.seekToLiveOnUpdate = false;
+        const live = this.hls?.liveSyncPosition;
+        if (live != null && live > this.video.currentTime) this.video.currentTime = live;
       });
 
-      // (opsional) saat level berubah, catat — bantu debug kualitas/adaptasi
       this.hls.on(Hls.Events.LEVEL_SWITCHED, (_e, d) => {
-        // console.debug('level switched to', d.level);
+        const level = this.hls?.levels[d.level];
+        this.events.emit('levelSwitched', {
+          level: d.level,
+          width: level?.width ?? 0,
+          height: level?.height ?? 0,
+          bitrate: level?.bitrate ?? 0,
+        });
       });
     } else if (this.video.canPlayType('application/vnd.apple.mpegurl')) {
       // Safari (HLS native)
@@ -80,14 +160,163 @@ export class HlsPlayer {
       this.video.play().catch(() => {});
     } else {
       console.error('HLS is not supported in this browser');
+      this.setState('failed');
+    }
+  }
+
+  private countError(type: string, fatal: boolean) {
+    if (type === Hls.ErrorTypes.NETWORK_ERROR) this.errors.network++;
+    else if (type === Hls.ErrorTypes.MEDIA_ERROR) this.errors.media++;
+    else this.errors.other++;
+    if (fatal) this.errors.fatal++;
+  }
+
+  // snapshot statistik untuk overlay diagnosa
+  getStats(): StreamStats {
+    const video = this.video;
+    const level = this.hls ? this.hls.currentLevel : -1;
+    const details = this.hls && level >= 0 ? this.hls.levels[level] : undefined;
+
+    let bufferLength = 0;
+    for (let i = 0; i < video.buffered.length; i++) {
+      if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+        bufferLength = video.buffered.end(i) - video.currentTime;
+        break;
+      }
+    }
+
+    let latency: number | null = null;
+    if (this.hls) {
+      latency = this.hls.liveSyncPosition !== null ? this.hls.latency : null;
+    } else if (video.seekable.length > 0) {
+      // Safari native: hitung dari ujung seekable range
+      latency = video.seekable.end(video.seekable.length - 1) - video.currentTime;
+    }
+
+    const quality = video.getVideoPlaybackQuality?.();
+
+    return {
+      protocol: this.protocol,
+      level,
+      width: details?.width || video.videoWidth,
+      height: details?.height || video.videoHeight,
+      bitrate: details?.bitrate || 0,
+      bandwidthEstimate: this.hls?.bandwidthEstimate || 0,
+      bufferLength,
+      latency,
+      droppedFrames: quality?.droppedVideoFrames ?? 0,
+      totalFrames: quality?.totalVideoFrames ?? 0,
+      errors: { ...this.errors },
+    };
+  }
+
+  // rentang seekable dari playlist live; null untuk VOD / belum ada data
+  getLiveWindow(): LiveWindow | null {
+    const { seekable, currentTime } = this.video;
+    if (!seekable.length) return null;
+    if (this.hls && this.hls.liveSyncPosition === null) return null;
+
+    const start = seekable.start(0);
+    const liveEdge = this.hls?.liveSyncPosition ?? seekable.end(seekable.length - 1);
+    return { start, liveEdge: Math.max(start, liveEdge), position: currentTime };
+  }
+
+  seekBy(seconds: number) {
+    const range = this.getLiveWindow();
+    if (!range) return;
+    const target = Math.min(range.liveEdge, Math.max(range.start, range.position + seconds));
+    this.setDvr(target < range.liveEdge);
+    this.video.currentTime = target;
+    this.video.play().catch(() => {});
+  }
+
+  seekToLive() {
+    this.setDvr(false);
+    const range = this.getLiveWindow();
+    if (range) this.video.currentTime = range.liveEdge;
+    this.video.play().catch(() => {});
+  }
+
+  // hls.js melompat balik ke live kalau tertinggal > liveMaxLatency; matikan selama operator rewind.
+  // Mengubah config di instance yang sedang jalan bergantung pada perilaku hls.js 1.6:
+  // stream-controller (synchronizeToLiveEdge) dan latency-controller (maxLatency) membaca
+  // config.liveMaxLatencyDurationCount setiap kali dipakai, bukan menyalinnya saat konstruksi.
+  // Cek lagi kalau hls.js di-upgrade; instance baru di start() tetap dapat nilai DVR lewat config.
+  private setDvr(enabled: boolean) {
+    if (enabled === this.dvr) return;
+    this.dvr = enabled; // tetap dicatat walau instance sedang di-reload
+    if (!this.hls) return;
+    this.hls.config.liveMaxLatencyDurationCount = enabled
+      ? Infinity
+      : PLAYBACK_PROFILES[this.profile].hls.liveMaxLatencyDurationCount ?? Infinity;
+  }
+
+  getLevels(): PlayerLevelInfo[] {
+    return (this.hls?.levels ?? []).map((level, index) => ({
+      level: index,
+      width: level.width,
+      height: level.height,
+      bitrate: level.bitrate,
+    }));
+  }
+
+  getSelectedLevel() {
+    return this.manualLevel;
+  }
+
+  // paksa satu rendition (-1 = kembali ke ABR); profil cap hanya membatasi mode auto
+  setLevel(level: number) {
+    this.manualLevel = level;
+    if (this.hls) this.hls.currentLevel = level;
+  }
+
+  // Eskalasi recovery:
+  //   network → startLoad, lalu reload penuh kalau masih gagal
+  //   media   → recoverMediaError → swapAudioCodec → reload penuh
+  //   lainnya → reload penuh
+  // Semua langkah memakai backoff dan dihitung terhadap maxAttempts.
+  private recover(url: string, type: string, details: string) {
+    if (this.attempts >= this.recovery.maxAttempts) {
+      this.giveUp(details);
+      return;
     }
+
+    const attempt = this.attempts++;
+    const delay = getRecoveryDelay(this.recovery, attempt);
+    this.setState('recovering');
+
+    let action: () => void;
+    if (type === Hls.ErrorTypes.NETWORK_ERROR && attempt < 2) {
+      action = () => this.hls?.startLoad();
+    } else if (type === Hls.ErrorTypes.MEDIA_ERROR && this.mediaRecoverStep < 2) {
+      const step = this.mediaRecoverStep++;
+      action = () => {
+        if (step === 1) this.hls?.swapAudioCodec();
+        this.hls?.recoverMediaError();
+      };
+    } else {
+      action = () => this.start(url);
+    }
+
+    this.clearRecoveryTimer();
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      action();
+    }, delay);
   }
 
-  // paksa reload bersih (mis. saat fatal error)
-  private reload(url: string) {
-    this.destroy();
-    // kecilkan jeda supaya tidak tight loop saat masalah jaringan
-    setTimeout(() => this.load(url), 1000);
+  private giveUp(details: string) {
+    console.warn(`HLS recovery gave up after ${this.attempts} attempts`);
+    this.teardown();
+    this.setState('failed');
+    this.events.emit('gaveUp', { attempts: this.attempts, details });
+  }
+
+  private clearRecoveryTimer() {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
   }
 
   play() {
@@ -102,11 +331,23 @@ export class HlsPlayer {
 
   resume() {
     // lanjutkan fetch segmen
+    this.seekToLiveOnUpdate = true;
     this.hls?.startLoad();
     this.video.play().catch(() => {});
   }
 
   destroy() {
+    this.teardown();
+    this.setState('idle');
+    this.video.removeEventListener('playing', this.handlePlaying);
+    this.video.removeEventListener('waiting', this.handleWaiting);
+    this.video.removeEventListener('error', this.handleVideoError);
+    this.events.clear();
+  }
+
+  // lepas hls.js & MSE tanpa mengubah state / listener
+  private teardown() {
+    this.clearRecoveryTimer();
     if (this.hls) {
       try {
         this.hls.destroy();
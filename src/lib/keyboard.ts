@@ -0,0 +1,4 @@
+// Shortcut keyboard jangan aktif saat operator mengetik / menggeser slider
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || Boolean(target.closest('input, textarea, select, [role="slider"]')));
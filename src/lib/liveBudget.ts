@@ -0,0 +1,44 @@
+// Pemilihan tile yang boleh memutar video live saat jumlah decoder dibatasi
+
+export interface LiveBudgetInput {
+  cameraIds: string[];                 // urutan sesuai cell di grid
+  budget: number;                      // 0 = tanpa batas
+  focusedIds?: string[];               // tile yang di-hover / diklik operator
+  pinnedIds?: string[];
+  motionAt?: Record<string, number>;   // timestamp motion terakhir per kamera
+  now?: number;
+  motionWindowMs?: number;
+}
+
+export const MOTION_PRIORITY_WINDOW = 60 * 1000;
+
+// Prioritas: fokus > pinned > motion terbaru > urutan cell
+export const selectLiveCameras = ({
+  cameraIds,
+  budget,
+  focusedIds = [],
+  pinnedIds = [],
+  motionAt = {},
+  now = Date.now(),
+  motionWindowMs = MOTION_PRIORITY_WINDOW,
+}: LiveBudgetInput): Set<string> => {
+  if (budget <= 0 || cameraIds.length <= budget) return new Set(cameraIds);
+
+  const rank = (id: string) => {
+    if (focusedIds.includes(id)) return 3;
+    if (pinnedIds.includes(id)) return 2;
+    const motion = motionAt[id];
+    if (motion && now - motion < motionWindowMs) return 1;
+    return 0;
+  };
+
+  const ranked = cameraIds
+    .map((id, index) => ({ id, index, rank: rank(id), motion: motionAt[id] ?? 0 }))
+    .sort((a, b) =>
+      b.rank - a.rank ||
+      (a.rank === 1 ? b.motion - a.motion : 0) ||
+      a.index - b.index
+    );
+
+  return new Set(ranked.slice(0, budget).map((entry) => entry.id));
+};
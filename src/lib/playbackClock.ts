@@ -0,0 +1,102 @@
+// Jam bersama untuk playback arsip tersinkron: semua player mengikuti waktu dari sini
+import { PlayerEmitter } from './playerEvents';
+
+export interface PlaybackClockEventMap {
+  tick: { time: number };                       // berkala selama play
+  seek: { time: number };                       // lompatan waktu (operator seek)
+  state: { playing: boolean; rate: number };
+}
+
+const TICK_INTERVAL = 250;
+
+export class PlaybackClock {
+  private time: number;          // epoch ms saat anchor
+  private anchor = 0;            // performance.now() saat time terakhir di-set
+  private rate = 1;
+  private playing = false;
+  private end: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private events = new PlayerEmitter<PlaybackClockEventMap>();
+
+  constructor(time = Date.now()) {
+    this.time = time;
+  }
+
+  on<K extends keyof PlaybackClockEventMap>(event: K, callback: (payload: PlaybackClockEventMap[K]) => void) {
+    return this.events.on(event, callback);
+  }
+
+  now() {
+    if (!this.playing) return this.time;
+    return this.time + (performance.now() - this.anchor) * this.rate;
+  }
+
+  isPlaying() {
+    return this.playing;
+  }
+
+  getRate() {
+    return this.rate;
+  }
+
+  // batas akhir (mis. akhir hari); clock berhenti sendiri di sini
+  setEnd(end: number | null) {
+    this.end = end;
+  }
+
+  play() {
+    if (this.playing) return;
+    this.anchor = performance.now();
+    this.playing = true;
+    this.timer = setInterval(this.tick, TICK_INTERVAL);
+    this.emitState();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.time = this.now();
+    this.playing = false;
+    this.stopTimer();
+    this.emitState();
+  }
+
+  seek(time: number) {
+    this.time = this.end !== null ? Math.min(time, this.end) : time;
+    this.anchor = performance.now();
+    this.events.emit('seek', { time: this.time });
+  }
+
+  setRate(rate: number) {
+    this.time = this.now();
+    this.anchor = performance.now();
+    this.rate = rate;
+    this.emitState();
+  }
+
+  destroy() {
+    this.stopTimer();
+    this.playing = false;
+    this.events.clear();
+  }
+
+  private tick = () => {
+    const time = this.now();
+    if (this.end !== null && time >= this.end) {
+      this.seek(this.end);
+      this.pause();
+      return;
+    }
+    this.events.emit('tick', { time });
+  };
+
+  private emitState() {
+    this.events.emit('state', { playing: this.playing, rate: this.rate });
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { HlsConfig } from 'hls.js';
+
+export type PlaybackProfileId = 'stable' | 'low-latency' | 'bandwidth-saver';
+
+export interface PlaybackProfile {
+  label: string;
+  description: string;
+  hls: Partial<HlsConfig>;
+  maxHeight?: number; // batasi level ABR ke resolusi ini (px)
+}
+
+export const DEFAULT_PLAYBACK_PROFILE: PlaybackProfileId = 'stable';
+
+export const PLAYBACK_PROFILES: Record<PlaybackProfileId, PlaybackProfile> = {
+  stable: {
+    label: 'Stable',
+    description: 'Standard HLS, ~3 segments behind live. Best for the video wall.',
+    hls: {
+      lowLatencyMode: false,             // ← pakai HLS standar (bukan LL-HLS)
+      liveSyncDurationCount: 3,          // target ~3 segmen dari live edge
+      liveMaxLatencyDurationCount: 5,    // toleransi keterlambatan
+      maxLiveSyncPlaybackRate: 1.0,      // jangan speed-up mengejar live
+      capLevelToPlayerSize: true,        // auto turunkan level sesuai ukuran video
+      maxBufferLength: 30,               // detik buffer maksimal
+      backBufferLength: 60,              // detik buffer belakang
+      maxBufferHole: 0.5,                // toleransi gap kecil
+    },
+  },
+  'low-latency': {
+    label: 'Low latency',
+    description: 'LL-HLS close to the live edge. For live tracking.',
+    hls: {
+      lowLatencyMode: true,
+      liveSyncDurationCount: 1,
+      liveMaxLatencyDurationCount: 3,
+      maxLiveSyncPlaybackRate: 1.5,      // boleh speed-up sedikit untuk mengejar live
+      capLevelToPlayerSize: true,
+      maxBufferLength: 6,
+      backBufferLength: 30,
+      maxBufferHole: 0.5,
+    },
+  },
+  'bandwidth-saver': {
+    label: 'Bandwidth saver',
+    description: 'Caps quality at 480p with a short buffer. For remote sites.',
+    hls: {
+      lowLatencyMode: false,
+      liveSyncDurationCount: 3,
+      liveMaxLatencyDurationCount: 6,
+      maxLiveSyncPlaybackRate: 1.0,
+      capLevelToPlayerSize: true,
+      startLevel: 0,                     // mulai dari level terendah
+      abrEwmaDefaultEstimate: 300_000,   // asumsi awal link lambat
+      maxBufferLength: 10,
+      maxMaxBufferLength: 15,
+      backBufferLength: 10,
+      maxBufferHole: 0.5,
+    },
+    maxHeight: 480,
+  },
+};
@@ -0,0 +1,56 @@
+// State & event typing bersama untuk player video
+import type { StreamProtocol } from './streamPlayer';
+
+export type PlayerState =
+  | 'idle'        // belum load / sudah di-destroy
+  | 'loading'     // manifest / segmen pertama sedang diambil
+  | 'playing'
+  | 'buffering'   // menunggu data, masih normal
+  | 'stalled'     // buffer habis, player macet
+  | 'recovering'  // sedang mencoba pulih dari fatal error
+  | 'failed';     // tidak bisa diputar
+
+export interface PlayerLevelInfo {
+  level: number;
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+export interface PlayerEventMap {
+  state: { state: PlayerState; previous: PlayerState };
+  levels: { levels: PlayerLevelInfo[] };   // daftar rendition tersedia (setelah manifest)
+  levelSwitched: PlayerLevelInfo;
+  stall: { position: number };
+  fatalError: { type: string; details: string };
+  gaveUp: { attempts: number; details: string };
+  protocolChanged: { protocol: StreamProtocol; reason?: string };
+}
+
+type Listener<T> = (payload: T) => void;
+
+export class PlayerEmitter<M> {
+  private listeners: { [K in keyof M]?: Listener<M[K]>[] } = {};
+
+  on<K extends keyof M>(event: K, callback: Listener<M[K]>) {
+    const list = (this.listeners[event] ??= []);
+    list.push(callback);
+    return () => {
+      this.listeners[event] = this.listeners[event]?.filter((cb) => cb !== callback);
+    };
+  }
+
+  emit<K extends keyof M>(event: K, payload: M[K]) {
+    this.listeners[event]?.forEach((cb) => {
+      try {
+        cb(payload);
+      } catch (error) {
+        console.error(`Player listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+
+  clear() {
+    this.listeners = {};
+  }
+}
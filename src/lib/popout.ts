@@ -0,0 +1,45 @@
+import { CameraStatus } from '@/types/camera';
+
+// Jendela pop-out kamera: status & logout diteruskan dari dashboard lewat BroadcastChannel.
+// Channel yang sama dipakai streamLeases untuk berbagi hitungan lease antar jendela.
+
+const CHANNEL_NAME = 'cctv_popout';
+const POPOUT_FEATURES = 'popup,width=960,height=560';
+
+export type PopoutMessage =
+  | { type: 'camera_status'; id: string; status: CameraStatus; lastSeen?: string }
+  | { type: 'logout' }
+  // held=false + handoff: jendela ditutup, sesi backend diserahkan ke dashboard untuk dihentikan
+  | { type: 'stream_lease'; cameraId: string; windowId: string; held: boolean; handoff?: boolean }
+  | { type: 'stream_lease_query' };
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = () => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+export const postPopoutMessage = (message: PopoutMessage) => {
+  getChannel()?.postMessage(message);
+};
+
+export const onPopoutMessage = (handler: (message: PopoutMessage) => void) => {
+  const ch = getChannel();
+  if (!ch) return () => {};
+  const listener = (event: MessageEvent<PopoutMessage>) => handler(event.data);
+  ch.addEventListener('message', listener);
+  return () => ch.removeEventListener('message', listener);
+};
+
+export const cameraPopoutPath = (cameraId: string) => `/cameras/${cameraId}/popout`;
+
+export const isPopoutWindow = () => window.location.pathname.endsWith('/popout');
+
+// Nama jendela per kamera → buka ulang kamera yang sama memakai jendela yang sudah ada
+export const openCameraPopout = (cameraId: string) => {
+  const popup = window.open(cameraPopoutPath(cameraId), `camera-popout-${cameraId}`, POPOUT_FEATURES);
+  popup?.focus();
+  return popup !== null;
+};
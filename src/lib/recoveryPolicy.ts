@@ -0,0 +1,22 @@
+// Kebijakan retry untuk player: exponential backoff + jitter, dibatasi jumlah percobaan
+
+export interface RecoveryPolicy {
+  maxAttempts: number;   // total percobaan sebelum menyerah
+  baseDelayMs: number;   // jeda percobaan pertama
+  maxDelayMs: number;    // batas atas jeda
+  jitter: number;        // 0..1, sebaran acak relatif terhadap jeda
+}
+
+export const DEFAULT_RECOVERY_POLICY: RecoveryPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.3,
+};
+
+// attempt mulai dari 0; jitter mencegah semua tile retry bersamaan
+export const getRecoveryDelay = (policy: RecoveryPolicy, attempt: number) => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const spread = delay * policy.jitter;
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+};
@@ -0,0 +1,122 @@
+// Capture frame video ke gambar dengan metadata (nama kamera, lokasi, waktu) tercetak di dalamnya
+import { format } from 'date-fns';
+import JSZip from 'jszip';
+import { Camera } from '@/types/camera';
+import { slugify } from './utils';
+
+export type SnapshotFormat = 'png' | 'jpeg';
+
+const JPEG_QUALITY = 0.92;
+
+export const snapshotFileName = (camera: Camera, fileFormat: SnapshotFormat, takenAt: Date) =>
+  `${slugify(camera.name)}_${format(takenAt, 'yyyyMMdd-HHmmss')}.${fileFormat === 'jpeg' ? 'jpg' : 'png'}`;
+
+const drawMetadata = (ctx: CanvasRenderingContext2D, camera: Camera, takenAt: Date) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.max(14, Math.round(height / 36));
+  const padding = Math.round(fontSize * 0.6);
+  const location = [camera.zone, camera.building].filter(Boolean).join(' • ');
+  const lines = [
+    { text: camera.name, bold: true },
+    ...(location ? [{ text: location, bold: false }] : []),
+    { text: format(takenAt, 'yyyy-MM-dd HH:mm:ss xxx'), bold: false },
+  ];
+
+  const lineHeight = Math.round(fontSize * 1.3);
+  const bandHeight = lines.length * lineHeight + padding * 2;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    ctx.font = `${line.bold ? '600 ' : ''}${fontSize}px sans-serif`;
+    ctx.fillText(line.text, padding, height - bandHeight + padding + index * lineHeight);
+  });
+};
+
+export const captureFrame = (
+  video: HTMLVideoElement,
+  camera: Camera,
+  fileFormat: SnapshotFormat,
+  takenAt = new Date()
+): Promise<Blob> => {
+  if (!video.videoWidth || !video.videoHeight) {
+    return Promise.reject(new Error('No video frame available'));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  drawMetadata(ctx, camera, takenAt);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode snapshot'))),
+      `image/${fileFormat}`,
+      fileFormat === 'jpeg' ? JPEG_QUALITY : undefined
+    );
+  });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadSnapshot = async (video: HTMLVideoElement, camera: Camera, fileFormat: SnapshotFormat) => {
+  const takenAt = new Date();
+  const blob = await captureFrame(video, camera, fileFormat, takenAt);
+  downloadBlob(blob, snapshotFileName(camera, fileFormat, takenAt));
+};
+
+// Capture semua tile sekaligus; tile tanpa frame dilewati
+export const downloadSnapshotZip = async (
+  entries: { video: HTMLVideoElement; camera: Camera }[],
+  fileFormat: SnapshotFormat
+) => {
+  const takenAt = new Date();
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  let captured = 0;
+
+  // nama kamera yang sama (atau kamera yang sama di dua sel) jangan saling menimpa di dalam ZIP
+  const uniqueName = (camera: Camera) => {
+    const name = snapshotFileName(camera, fileFormat, takenAt);
+    const dot = name.lastIndexOf('.');
+    let candidate = name;
+    for (let n = 2; usedNames.has(candidate); n++) {
+      candidate = `${name.slice(0, dot)}_${n}${name.slice(dot)}`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+  };
+
+  for (const { video, camera } of entries) {
+    try {
+      const blob = await captureFrame(video, camera, fileFormat, takenAt);
+      zip.file(uniqueName(camera), blob);
+      captured++;
+    } catch (error) {
+      console.warn(`Skipping snapshot for ${camera.name}:`, error);
+    }
+  }
+
+  if (captured > 0) {
+    const archive = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(archive, `snapshots_${format(takenAt, 'yyyyMMdd-HHmmss')}.zip`);
+  }
+
+  return { captured, skipped: entries.length - captured };
+};
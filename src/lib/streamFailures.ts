@@ -0,0 +1,35 @@
+import { CameraStatus } from '@/types/camera';
+import { cameraAPI } from './api';
+
+// Aktifkan dengan VITE_REPORT_STREAM_FAILURES=true
+const REPORT_ENABLED = import.meta.env.VITE_REPORT_STREAM_FAILURES === 'true';
+
+// cameraId → status sebelum dilaporkan ERROR, dikembalikan saat stream main lagi
+const reported = new Map<string, CameraStatus>();
+
+// Dipanggil saat player menyerah. Tile sendiri yang menampilkan kegagalannya; status kamera
+// bersama hanya diubah lewat backend (opsional) dan selalu dipasangkan dengan laporan pulih.
+export const reportStreamFailure = async (cameraId: string, previousStatus: CameraStatus) => {
+  if (!REPORT_ENABLED || reported.has(cameraId) || previousStatus === 'ERROR') return;
+  reported.set(cameraId, previousStatus);
+
+  try {
+    await cameraAPI.update(cameraId, { status: 'ERROR' });
+  } catch (error) {
+    reported.delete(cameraId);
+    console.error('Failed to report stream failure:', error);
+  }
+};
+
+// Player kembali playing (mis. retry manual) → pulihkan status yang tadi ditimpa
+export const reportStreamRecovered = async (cameraId: string) => {
+  const previousStatus = reported.get(cameraId);
+  if (!previousStatus) return;
+  reported.delete(cameraId);
+
+  try {
+    await cameraAPI.update(cameraId, { status: previousStatus });
+  } catch (error) {
+    console.error('Failed to report stream recovery:', error);
+  }
+};
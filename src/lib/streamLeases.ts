@@ -0,0 +1,127 @@
+// Reference counting sesi transcoding di backend.
+// Tile / halaman yang memutar kamera "meminjam" stream; stopStream baru dipanggil
+// setelah peminjam terakhir lepas dan grace period habis.
+// Jendela pop-out punya modul ini sendiri, jadi status lease diumumkan lewat channel
+// pop-out: stream tidak dihentikan selama jendela lain masih memegangnya.
+import { Camera } from '@/types/camera';
+import { cameraAPI } from './api';
+import { isPopoutWindow, onPopoutMessage, postPopoutMessage } from './popout';
+
+const STOP_GRACE_PERIOD = 30 * 1000;
+
+interface Lease {
+  count: number;
+  starting: Promise<Camera> | null;
+  stopTimer: ReturnType<typeof setTimeout> | null;
+  adopted?: boolean; // diambil alih dari pop-out yang ditutup; sesi sudah jalan di backend
+}
+
+const leases = new Map<string, Lease>();
+const windowId = Math.random().toString(36).slice(2);
+const remoteHolders = new Map<string, Set<string>>(); // cameraId → jendela lain yang memegang lease
+
+const heldElsewhere = (cameraId: string) => (remoteHolders.get(cameraId)?.size ?? 0) > 0;
+
+const announce = (cameraId: string, held: boolean, handoff = false) => {
+  postPopoutMessage({ type: 'stream_lease', cameraId, windowId, held, handoff });
+};
+
+const scheduleStop = (cameraId: string, lease: Lease) => {
+  lease.stopTimer = setTimeout(() => {
+    leases.delete(cameraId);
+    announce(cameraId, false);
+    if (!heldElsewhere(cameraId)) stopStream(cameraId, lease);
+  }, STOP_GRACE_PERIOD);
+};
+
+onPopoutMessage((message) => {
+  if (message.type === 'stream_lease_query') {
+    leases.forEach((_lease, cameraId) => announce(cameraId, true));
+    return;
+  }
+  if (message.type !== 'stream_lease' || message.windowId === windowId) return;
+
+  const holders = remoteHolders.get(message.cameraId) ?? new Set<string>();
+  if (message.held) holders.add(message.windowId);
+  else holders.delete(message.windowId);
+  remoteHolders.set(message.cameraId, holders);
+
+  // pop-out ditutup tanpa sempat stop → dashboard yang menghentikan setelah grace period
+  if (message.handoff && !isPopoutWindow() && !leases.has(message.cameraId) && !heldElsewhere(message.cameraId)) {
+    const lease: Lease = { count: 0, starting: null, stopTimer: null, adopted: true };
+    leases.set(message.cameraId, lease);
+    scheduleStop(message.cameraId, lease);
+  }
+});
+
+// jendela yang baru dibuka / di-reload perlu tahu lease yang sudah dipegang jendela lain
+postPopoutMessage({ type: 'stream_lease_query' });
+
+export const acquireStream = (cameraId: string): Promise<Camera> => {
+  let lease = leases.get(cameraId);
+  if (!lease) {
+    lease = { count: 0, starting: null, stopTimer: null };
+    leases.set(cameraId, lease);
+    announce(cameraId, true);
+  }
+
+  lease.count++;
+  if (lease.stopTimer) {
+    // masih dalam grace period → pakai sesi yang sama
+    clearTimeout(lease.stopTimer);
+    lease.stopTimer = null;
+  }
+
+  if (!lease.starting) {
+    const current = lease;
+    current.starting = cameraAPI.startStream(cameraId).catch((error) => {
+      current.starting = null;
+      throw error;
+    });
+  }
+  return lease.starting;
+};
+
+export const releaseStream = (cameraId: string) => {
+  const lease = leases.get(cameraId);
+  if (!lease || lease.count === 0) return;
+
+  lease.count--;
+  if (lease.count > 0) return;
+
+  scheduleStop(cameraId, lease);
+};
+
+// Hentikan semua sesi sekarang juga (mis. saat logout)
+export const releaseAllStreams = async () => {
+  const entries = Array.from(leases.entries());
+  leases.clear();
+  await Promise.all(
+    entries.map(([cameraId, lease]) => {
+      if (lease.stopTimer) clearTimeout(lease.stopTimer);
+      announce(cameraId, false);
+      return stopStream(cameraId, lease);
+    })
+  );
+};
+
+// Jendela akan ditutup (pagehide): request stop tidak sempat selesai,
+// jadi lepas semua lease dan serahkan penghentiannya ke dashboard
+export const handOffAllStreams = () => {
+  leases.forEach((lease, cameraId) => {
+    if (lease.stopTimer) clearTimeout(lease.stopTimer);
+    announce(cameraId, false, true);
+  });
+  leases.clear();
+};
+
+const stopStream = async (cameraId: string, lease: Lease) => {
+  // tidak perlu stop kalau start memang tidak pernah berhasil
+  if (!lease.starting && !lease.adopted) return;
+  try {
+    await lease.starting;
+    await cameraAPI.stopStream(cameraId);
+  } catch (error) {
+    console.error(`Failed to stop stream for camera ${cameraId}:`, error);
+  }
+};
@@ -0,0 +1,58 @@
+// Kontrak bersama untuk semua implementasi player (HLS, WebRTC/WHEP)
+import { PlayerEventMap, PlayerLevelInfo, PlayerState } from './playerEvents';
+
+export type StreamProtocol = 'hls' | 'webrtc';
+
+// 'auto' = WebRTC kalau tersedia, fallback ke HLS saat negosiasi gagal
+export type StreamProtocolPreference = 'auto' | StreamProtocol;
+
+export interface StreamStats {
+  protocol: StreamProtocol;
+  level: number;              // index level aktif, -1 kalau belum diketahui / tidak ada
+  width: number;
+  height: number;
+  bitrate: number;            // bps stream yang diterima
+  bandwidthEstimate: number;  // bps estimasi bandwidth
+  bufferLength: number;       // detik buffer di depan posisi play
+  latency: number | null;     // detik di belakang live edge
+  droppedFrames: number;
+  totalFrames: number;
+  errors: {
+    network: number;
+    media: number;
+    other: number;
+    fatal: number;
+  };
+}
+
+// Rentang yang bisa di-rewind pada stream live (detik, dalam timeline <video>)
+export interface LiveWindow {
+  start: number;      // posisi paling awal yang masih bisa di-seek
+  liveEdge: number;   // posisi "live" (target sync player)
+  position: number;   // posisi play sekarang
+}
+
+export interface StreamPlayer {
+  readonly protocol: StreamProtocol;
+  load(url: string): void;
+  on<K extends keyof PlayerEventMap>(event: K, callback: (payload: PlayerEventMap[K]) => void): () => void;
+  getState(): PlayerState;
+  getStats(): StreamStats;
+  getLiveWindow(): LiveWindow | null; // null = protokol tidak mendukung rewind
+  seekBy(seconds: number): void;
+  seekToLive(): void;
+  getLevels(): PlayerLevelInfo[];
+  getSelectedLevel(): number;         // -1 = auto (ABR)
+  setLevel(level: number): void;
+  play(): Promise<void>;
+  pause(): void;
+  resume(): void;
+  destroy(): void;
+}
+
+// label menu kualitas, mis. "1080p" atau "720p · 2.5 Mbps" kalau tinggi sama
+export const formatLevelLabel = (level: PlayerLevelInfo, levels: PlayerLevelInfo[]) => {
+  if (!level.height) return `${Math.round(level.bitrate / 1000)} kbps`;
+  const sameHeight = levels.filter((other) => other.height === level.height).length > 1;
+  return sameHeight ? `${level.height}p · ${(level.bitrate / 1_000_000).toFixed(1)} Mbps` : `${level.height}p`;
+};
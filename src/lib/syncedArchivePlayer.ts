@@ -0,0 +1,156 @@
+// Player arsip satu kamera yang mengikuti PlaybackClock bersama.
+// Clock adalah master: player di-load / di-seek / di-pause supaya cocok dengan waktu clock.
+import { RecordingPlayback, RecordingSegment } from '@/types/camera';
+import { api } from './api';
+import { HlsPlayer } from './hlsPlayer';
+import { PlaybackClock } from './playbackClock';
+import { PlayerEmitter, PlayerEventMap } from './playerEvents';
+import { findSegmentAt, segmentEnd, segmentStart } from './archive';
+
+export type SyncedArchiveStatus =
+  | 'idle'     // belum ada segmen
+  | 'loading'  // playlist segmen sedang diambil
+  | 'ready'    // segmen aktif, mengikuti clock
+  | 'gap'      // tidak ada rekaman pada waktu clock
+  | 'error';   // playlist gagal diambil
+
+export interface SyncedArchiveEventMap {
+  status: { status: SyncedArchiveStatus };
+  state: PlayerEventMap['state'];
+}
+
+// toleransi selisih posisi sebelum dikoreksi; makin cepat, makin longgar supaya tidak seek terus
+const driftTolerance = (rate: number) => Math.max(0.75, rate * 0.5);
+
+export class SyncedArchivePlayer {
+  private video: HTMLVideoElement;
+  private cameraId: string;
+  private clock: PlaybackClock;
+  private player: HlsPlayer;
+  private segments: RecordingSegment[] = [];
+  private active: { segment: RecordingSegment; playbackStart: number } | null = null;
+  private playbackCache = new Map<string, RecordingPlayback>();
+  private loadToken = 0;
+  private loadingSegmentId: string | null = null;
+  private failedSegmentId: string | null = null;  // jangan ulangi request yang sudah gagal tiap tick
+  private status: SyncedArchiveStatus = 'idle';
+  private events = new PlayerEmitter<SyncedArchiveEventMap>();
+  private unsubscribers: (() => void)[];
+
+  constructor(video: HTMLVideoElement, cameraId: string, clock: PlaybackClock) {
+    this.video = video;
+    this.cameraId = cameraId;
+    this.clock = clock;
+    this.player = new HlsPlayer(video);
+    this.player.on('state', (payload) => this.events.emit('state', payload));
+
+    this.video.addEventListener('loadedmetadata', this.sync);
+    this.unsubscribers = [
+      clock.on('tick', this.sync),
+      clock.on('seek', this.sync),
+      clock.on('state', this.sync),
+    ];
+  }
+
+  on<K extends keyof SyncedArchiveEventMap>(event: K, callback: (payload: SyncedArchiveEventMap[K]) => void) {
+    return this.events.on(event, callback);
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  setSegments(segments: RecordingSegment[]) {
+    this.segments = segments;
+    this.failedSegmentId = null;
+    this.sync();
+  }
+
+  // load ulang segmen pada waktu clock (setelah error / player gagal)
+  retry() {
+    this.active = null;
+    this.failedSegmentId = null;
+    this.sync();
+  }
+
+  private setStatus(status: SyncedArchiveStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.events.emit('status', { status });
+  }
+
+  private sync = () => {
+    const time = this.clock.now();
+    const segment = findSegmentAt(this.segments, time);
+
+    if (!segment) {
+      this.loadToken++;
+      this.loadingSegmentId = null;
+      if (!this.video.paused) this.video.pause();
+      this.setStatus(this.segments.length ? 'gap' : 'idle');
+      return;
+    }
+
+    if (segment.id === this.failedSegmentId) {
+      this.setStatus('error');
+      return;
+    }
+
+    if (this.active?.segment.id !== segment.id) {
+      if (this.loadingSegmentId !== segment.id) this.load(segment);
+      return;
+    }
+
+    // metadata belum ada → tunggu loadedmetadata
+    if (this.video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+    const rate = this.clock.getRate();
+    if (this.video.playbackRate !== rate) this.video.playbackRate = rate;
+
+    const expected = (time - this.active.playbackStart) / 1000;
+    if (Math.abs(this.video.currentTime - expected) > driftTolerance(rate)) {
+      this.video.currentTime = expected;
+    }
+
+    if (this.clock.isPlaying() && this.video.paused) this.video.play().catch(() => {});
+    if (!this.clock.isPlaying() && !this.video.paused) this.video.pause();
+    this.setStatus('ready');
+  };
+
+  private async load(segment: RecordingSegment) {
+    const token = ++this.loadToken;
+    this.loadingSegmentId = segment.id;
+    this.setStatus('loading');
+
+    try {
+      let playback = this.playbackCache.get(segment.id);
+      if (!playback) {
+        playback = await api.recordings.getPlayback(this.cameraId, {
+          from: new Date(segmentStart(segment)),
+          to: new Date(segmentEnd(segment)),
+        });
+        this.playbackCache.set(segment.id, playback);
+      }
+      if (token !== this.loadToken) return;
+
+      this.loadingSegmentId = null;
+      this.active = { segment, playbackStart: new Date(playback.start_time).getTime() };
+      this.player.load(playback.url);
+    } catch (error) {
+      if (token !== this.loadToken) return;
+      console.error(`Failed to load recording for camera ${this.cameraId}:`, error);
+      this.loadingSegmentId = null;
+      this.failedSegmentId = segment.id;
+      this.active = null;
+      this.setStatus('error');
+    }
+  }
+
+  destroy() {
+    this.loadToken++;
+    this.unsubscribers.forEach((off) => off());
+    this.video.removeEventListener('loadedmetadata', this.sync);
+    this.player.destroy();
+    this.events.clear();
+  }
+}
@@ -0,0 +1,102 @@
+import { CSSProperties } from 'react';
+import { ZoomState, isZoomed, zoomTransform } from '@/lib/digitalZoom';
+
+// Orientasi & penyesuaian gambar per kamera (kamera terbalik / miring, malam yang gelap)
+
+export type ViewRotation = 0 | 90 | 180 | 270;
+export type ViewFit = 'cover' | 'contain' | 'stretch';
+
+export interface ViewTransform {
+  rotation: ViewRotation;
+  flipH: boolean;
+  flipV: boolean;
+  brightness: number; // persen, 100 = asli
+  contrast: number;
+  saturation: number;
+  fit?: ViewFit;      // undefined = ikut default tempat kamera ditampilkan
+}
+
+export const DEFAULT_VIEW_TRANSFORM: ViewTransform = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+};
+
+export const VIEW_ROTATIONS: ViewRotation[] = [0, 90, 180, 270];
+
+export const VIEW_FITS: { id: ViewFit; label: string }[] = [
+  { id: 'cover', label: 'Cover (crop)' },
+  { id: 'contain', label: 'Contain (letterbox)' },
+  { id: 'stretch', label: 'Stretch' },
+];
+
+export const ADJUSTMENT_RANGE = { min: 0, max: 200 };
+
+export const resolveViewTransform = (stored?: Partial<ViewTransform>): ViewTransform => ({
+  ...DEFAULT_VIEW_TRANSFORM,
+  ...stored,
+});
+
+export const isDefaultViewTransform = (view: ViewTransform) =>
+  view.rotation === 0 &&
+  !view.flipH &&
+  !view.flipV &&
+  view.brightness === 100 &&
+  view.contrast === 100 &&
+  view.saturation === 100 &&
+  view.fit === undefined;
+
+// 90° / 270°: lebar dan tinggi elemen harus ditukar supaya tetap mengisi kotak
+export const isQuarterTurn = (rotation: ViewRotation) => rotation % 180 !== 0;
+
+export const viewFilter = ({ brightness, contrast, saturation }: ViewTransform) =>
+  brightness === 100 && contrast === 100 && saturation === 100
+    ? undefined
+    : `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`;
+
+export interface BoxSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Style untuk <video>/<img> kamera: fit, filter, rotasi/flip, plus zoom digital.
+ * box = ukuran container, wajib untuk rotasi 90/270 (tanpa itu rotasi ditunda).
+ */
+export const viewMediaStyle = (view: ViewTransform, box: BoxSize | null, zoom?: ZoomState): CSSProperties => {
+  const style: CSSProperties = { filter: viewFilter(view) };
+  if (view.fit) style.objectFit = view.fit === 'stretch' ? 'fill' : view.fit;
+
+  const quarter = isQuarterTurn(view.rotation) && box !== null;
+  const transforms: string[] = [];
+
+  if (zoom && isZoomed(zoom)) {
+    // translate persen mengacu ke ukuran elemen, yang tertukar saat rotasi 90/270
+    transforms.push(
+      quarter
+        ? `scale(${zoom.scale}) translate(${(0.5 - zoom.x) * box.width}px, ${(0.5 - zoom.y) * box.height}px)`
+        : zoomTransform(zoom)
+    );
+  }
+  // urutan CSS dibaca dari kanan: rotasi dulu, lalu flip di orientasi layar, lalu zoom
+  if (view.flipH || view.flipV) transforms.push(`scale(${view.flipH ? -1 : 1}, ${view.flipV ? -1 : 1})`);
+  if (view.rotation !== 0 && (quarter || !isQuarterTurn(view.rotation))) {
+    transforms.push(`rotate(${view.rotation}deg)`);
+  }
+  if (transforms.length > 0) style.transform = transforms.join(' ');
+
+  if (quarter) {
+    Object.assign(style, {
+      position: 'absolute',
+      width: box.height,
+      height: box.width,
+      maxWidth: 'none',
+      left: (box.width - box.height) / 2,
+      top: (box.height - box.width) / 2,
+    });
+  }
+  return style;
+};
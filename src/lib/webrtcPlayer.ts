@@ -0,0 +1,332 @@
+// src/lib/webrtcPlayer.ts
+// Player WebRTC via WHEP (WebRTC-HTTP Egress Protocol).
+// `webrtc_url` dari backend diasumsikan endpoint WHEP: POST offer SDP → answer SDP,
+// header Location menunjuk resource sesi yang di-DELETE saat selesai.
+import { PlayerEmitter, PlayerEventMap, PlayerState } from './playerEvents';
+import { DEFAULT_RECOVERY_POLICY, RecoveryPolicy, getRecoveryDelay } from './recoveryPolicy';
+import type { LiveWindow, StreamPlayer, StreamStats } from './streamPlayer';
+
+export interface WebRtcPlayerOptions {
+  recovery?: Partial<RecoveryPolicy>;
+  iceServers?: RTCIceServer[];
+  connectTimeoutMs?: number;   // batas waktu sampai ICE connected
+}
+
+const ICE_GATHERING_TIMEOUT = 2000;
+const STATS_INTERVAL = 1000;
+
+export class WebRtcPlayer implements StreamPlayer {
+  readonly protocol = 'webrtc' as const;
+  private video: HTMLVideoElement;
+  private pc: RTCPeerConnection | null = null;
+  private resourceUrl: string | null = null;
+  private url: string | null = null;
+  private state: PlayerState = 'idle';
+  private events = new PlayerEmitter<PlayerEventMap>();
+  private errors: StreamStats['errors'] = { network: 0, media: 0, other: 0, fatal: 0 };
+  private recovery: RecoveryPolicy;
+  private iceServers: RTCIceServer[];
+  private connectTimeoutMs: number;
+  private attempts = 0;
+  private session = 0;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private lastBytes: { bytes: number; ts: number } | null = null;
+  private rtcStats = { bitrate: 0, bandwidthEstimate: 0, jitterBuffer: 0, framesDropped: 0, framesReceived: 0 };
+
+  constructor(video: HTMLVideoElement, options: WebRtcPlayerOptions = {}) {
+    this.video = video;
+    this.recovery = { ...DEFAULT_RECOVERY_POLICY, ...options.recovery };
+    this.iceServers = options.iceServers ?? [];
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 8000;
+    // autoplay policy
+    this.video.muted = true;
+    this.video.playsInline = true;
+
+    this.video.addEventListener('playing', this.handlePlaying);
+    this.video.addEventListener('waiting', this.handleWaiting);
+  }
+
+  on<K extends keyof PlayerEventMap>(event: K, callback: (payload: PlayerEventMap[K]) => void) {
+    return this.events.on(event, callback);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  private setState(state: PlayerState) {
+    if (state === this.state) return;
+    const previous = this.state;
+    this.state = state;
+    this.events.emit('state', { state, previous });
+  }
+
+  private handlePlaying = () => {
+    this.attempts = 0;
+    this.setState('playing');
+  };
+
+  private handleWaiting = () => {
+    if (this.state === 'playing') this.setState('buffering');
+  };
+
+  load(url: string) {
+    this.url = url;
+    this.attempts = 0;
+    this.start(url);
+  }
+
+  private start(url: string) {
+    this.teardown();
+    this.setState('loading');
+
+    if (typeof RTCPeerConnection === 'undefined') {
+      console.error('WebRTC is not supported in this browser');
+      this.fail(url, 'other', 'WEBRTC_UNSUPPORTED', false);
+      return;
+    }
+
+    // tiap negosiasi punya id sesi; callback dari sesi lama diabaikan
+    const session = ++this.session;
+    this.negotiate(url, session).catch((error) => {
+      if (session !== this.session) return;
+      console.warn('WHEP negotiation failed:', error);
+      this.fail(url, 'network', 'WHEP_NEGOTIATION_FAILED');
+    });
+  }
+
+  private async negotiate(url: string, session: number) {
+    const pc = new RTCPeerConnection({ iceServers: this.iceServers });
+    this.pc = pc;
+
+    pc.addTransceiver('video', { direction: 'recvonly' });
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+
+    pc.ontrack = (event) => {
+      const stream = (this.video.srcObject as MediaStream | null) ?? new MediaStream();
+      if (!stream.getTracks().includes(event.track)) stream.addTrack(event.track);
+      if (this.video.srcObject !== stream) this.video.srcObject = stream;
+      this.video.play().catch(() => {});
+    };
+
+    pc.oniceconnectionstatechange = () => {
+      if (session !== this.session) return;
+      switch (pc.iceConnectionState) {
+        case 'connected':
+        case 'completed':
+          this.clearConnectTimer();
+          if (this.state === 'stalled') this.setState('playing');
+          break;
+        case 'disconnected':
+          // bisa pulih sendiri; tandai stalled dulu
+          this.setState('stalled');
+          this.events.emit('stall', { position: this.video.currentTime });
+          break;
+        case 'failed':
+          this.fail(url, 'network', 'ICE_FAILED');
+          break;
+      }
+    };
+
+    this.connectTimer = setTimeout(() => {
+      if (session !== this.session) return;
+      this.fail(url, 'network', 'ICE_TIMEOUT');
+    }, this.connectTimeoutMs);
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    await this.waitForIceGathering(pc);
+    if (session !== this.session) return;
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: pc.localDescription?.sdp,
+    });
+    if (!res.ok) throw new Error(`WHEP endpoint responded ${res.status}`);
+
+    const location = res.headers.get('Location');
+    const resourceUrl = location ? new URL(location, url).toString() : null;
+    if (session !== this.session) {
+      // negosiasi basi (sudah retry / reload): jangan timpa resource sesi baru, hapus yang ini
+      if (resourceUrl) fetch(resourceUrl, { method: 'DELETE' }).catch(() => {});
+      return;
+    }
+    this.resourceUrl = resourceUrl;
+
+    const answer = await res.text();
+    if (session !== this.session) return;
+    await pc.setRemoteDescription({ type: 'answer', sdp: answer });
+
+    this.startStatsPolling(pc);
+  }
+
+  // kirim offer setelah kandidat terkumpul (non-trickle), dengan batas waktu
+  private waitForIceGathering(pc: RTCPeerConnection) {
+    if (pc.iceGatheringState === 'complete') return Promise.resolve();
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(done, ICE_GATHERING_TIMEOUT);
+      function done() {
+        clearTimeout(timer);
+        pc.removeEventListener('icegatheringstatechange', check);
+        resolve();
+      }
+      function check() {
+        if (pc.iceGatheringState === 'complete') done();
+      }
+      pc.addEventListener('icegatheringstatechange', check);
+    });
+  }
+
+  private fail(url: string, type: keyof StreamStats['errors'], details: string, retry = true) {
+    this.errors[type]++;
+    this.errors.fatal++;
+    this.events.emit('fatalError', { type, details });
+
+    if (!retry || this.attempts >= this.recovery.maxAttempts) {
+      this.teardown();
+      this.setState('failed');
+      this.events.emit('gaveUp', { attempts: this.attempts, details });
+      return;
+    }
+
+    const delay = getRecoveryDelay(this.recovery, this.attempts++);
+    this.teardown();
+    this.setState('recovering');
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.start(url);
+    }, delay);
+  }
+
+  private startStatsPolling(pc: RTCPeerConnection) {
+    this.statsTimer = setInterval(async () => {
+      try {
+        const report = await pc.getStats();
+        report.forEach((entry) => {
+          if (entry.type === 'inbound-rtp' && entry.kind === 'video') {
+            const now = entry.timestamp as number;
+            if (this.lastBytes && now > this.lastBytes.ts) {
+              this.rtcStats.bitrate =
+                ((entry.bytesReceived - this.lastBytes.bytes) * 8 * 1000) / (now - this.lastBytes.ts);
+            }
+            this.lastBytes = { bytes: entry.bytesReceived, ts: now };
+            this.rtcStats.framesDropped = entry.framesDropped ?? 0;
+            this.rtcStats.framesReceived = entry.framesReceived ?? 0;
+            if (entry.jitterBufferEmittedCount) {
+              this.rtcStats.jitterBuffer = entry.jitterBufferDelay / entry.jitterBufferEmittedCount;
+            }
+          } else if (entry.type === 'candidate-pair' && entry.nominated) {
+            this.rtcStats.bandwidthEstimate = entry.availableIncomingBitrate ?? 0;
+          }
+        });
+      } catch {
+        // pc sudah ditutup
+      }
+    }, STATS_INTERVAL);
+  }
+
+  getStats(): StreamStats {
+    return {
+      protocol: this.protocol,
+      level: -1,
+      width: this.video.videoWidth,
+      height: this.video.videoHeight,
+      bitrate: this.rtcStats.bitrate,
+      bandwidthEstimate: this.rtcStats.bandwidthEstimate,
+      bufferLength: this.rtcStats.jitterBuffer,
+      latency: this.pc ? this.rtcStats.jitterBuffer : null,
+      droppedFrames: this.rtcStats.framesDropped,
+      totalFrames: this.rtcStats.framesReceived,
+      errors: { ...this.errors },
+    };
+  }
+
+  // WebRTC tidak menyimpan buffer ke belakang → tidak ada DVR
+  getLiveWindow(): LiveWindow | null {
+    return null;
+  }
+
+  seekBy() {}
+
+  seekToLive() {}
+
+  // resolusi diatur oleh server / congestion control, bukan oleh client
+  getLevels() {
+    return [];
+  }
+
+  getSelectedLevel() {
+    return -1;
+  }
+
+  setLevel() {}
+
+  play() {
+    return this.video.play();
+  }
+
+  pause() {
+    // WebRTC tidak punya buffer untuk dilanjutkan; tutup sesi supaya server berhenti kirim
+    this.video.pause();
+    this.teardown();
+    this.setState('idle');
+  }
+
+  resume() {
+    if (!this.url) return;
+    if (this.pc) {
+      this.video.play().catch(() => {});
+      return;
+    }
+    this.attempts = 0;
+    this.start(this.url);
+  }
+
+  destroy() {
+    this.teardown();
+    this.setState('idle');
+    this.video.removeEventListener('playing', this.handlePlaying);
+    this.video.removeEventListener('waiting', this.handleWaiting);
+    this.events.clear();
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  // tutup peer connection & sesi WHEP tanpa mengubah state / listener
+  private teardown() {
+    this.session++;
+    this.clearConnectTimer();
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    this.lastBytes = null;
+
+    if (this.resourceUrl) {
+      // best effort: beri tahu server sesi selesai
+      fetch(this.resourceUrl, { method: 'DELETE' }).catch(() => {});
+      this.resourceUrl = null;
+    }
+    if (this.pc) {
+      try {
+        this.pc.close();
+      } catch {
+        // sudah tertutup
+      }
+      this.pc = null;
+    }
+    this.video.srcObject = null;
+  }
+}
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { addDays, format, isToday, parse, isValid } from 'date-fns';
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, Loader2, Pause, Play } from 'lucide-react';
+import { RecordingSegment } from '@/types/camera';
+import { PLAYBACK_RATES, getDayRange, sortSegments } from '@/lib/archive';
+import { api } from '@/lib/api';
+import { useCameraById } from '@/hooks/use-camera-by-id';
+import { useArchivePlayback } from '@/hooks/use-archive-playback';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { ArchiveTimeline } from '@/components/ArchiveTimeline';
+import { PlayerStateOverlay } from '@/components/PlayerStateOverlay';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+
+const DATE_PARAM_FORMAT = 'yyyy-MM-dd';
+
+export default function ArchiveView() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { camera, loadError } = useCameraById(id);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const [segments, setSegments] = useState<RecordingSegment[]>([]);
+  const [loadingSegments, setLoadingSegments] = useState(false);
+  const [segmentsError, setSegmentsError] = useState<string | null>(null);
+  const [rate, setRate] = useState(1);
+
+  // tanggal di URL supaya bisa di-bookmark / dibagikan
+  const dateParam = searchParams.get('date');
+  const day = useMemo(() => {
+    const parsed = dateParam ? parse(dateParam, DATE_PARAM_FORMAT, new Date()) : new Date();
+    return isValid(parsed) ? parsed : new Date();
+  }, [dateParam]);
+  const { from, to } = useMemo(() => getDayRange(day), [day]);
+
+  const { state, position, playing, seek, togglePlay } = useArchivePlayback(videoRef, id, segments, rate);
+  const viewTransform = useViewTransform(mainRef, id);
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+    setLoadingSegments(true);
+    setSegmentsError(null);
+    (async () => {
+      try {
+        const result = await api.recordings.listSegments(id, { from, to });
+        if (mounted) setSegments(sortSegments(result));
+      } catch (e) {
+        console.error('Failed to load recordings:', e);
+        if (mounted) {
+          setSegments([]);
+          setSegmentsError(e instanceof Error ? e.message : 'Failed to load recordings');
+        }
+      } finally {
+        if (mounted) setLoadingSegments(false);
+      }
+    })();
+    return () => { mounted = false; };
+  }, [id, from, to]);
+
+  const handleSeek = (time: number) => {
+    if (!seek(time)) toast.info('No recording after this point');
+  };
+
+  const setDay = (next: Date) => {
+    setSearchParams({ date: format(next, DATE_PARAM_FORMAT) }, { replace: true });
+  };
+
+  return (
+    <div className="flex flex-col h-screen">
+      <header className="relative z-50 h-16 border-b border-border bg-card/50 backdrop-blur flex items-center justify-between px-6">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/cameras/${id}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          {camera && (
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h1 className="text-lg font-bold truncate">{camera.name}</h1>
+                <span className="text-xs font-semibold text-muted-foreground">ARCHIVE</span>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {[camera.building, camera.zone].filter(Boolean).join(' • ') || 'No location'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setDay(addDays(day, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="w-40">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {format(day, 'dd MMM yyyy')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                selected={day}
+                onSelect={(selected) => selected && setDay(selected)}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isToday(day)}
+            onClick={() => setDay(addDays(day, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </header>
+
+      <main ref={mainRef} className="flex-1 relative bg-black overflow-hidden">
+        {loadError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-sm text-destructive">{loadError}</span>
+          </div>
+        )}
+
+        {!loadError && position === null && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            {loadingSegments ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <span className="text-sm text-muted-foreground">
+                {segmentsError ??
+                  (segments.length > 0
+                    ? 'Click the timeline to start playback'
+                    : 'No recordings for this day')}
+              </span>
+            )}
+          </div>
+        )}
+
+        <video
+          ref={videoRef}
+          className="w-full h-full object-contain"
+          style={viewTransform.style}
+          muted
+          playsInline
+        />
+
+        <PlayerStateOverlay state={state} onRetry={() => position !== null && seek(position)} />
+      </main>
+
+      <footer className="border-t border-border bg-card/50 px-6 py-3 space-y-2">
+        <div className="flex items-center gap-3">
+          <Button size="icon" variant="ghost" disabled={position === null} onClick={togglePlay}>
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+
+          <span className="font-mono text-sm w-20">
+            {position !== null ? format(position, 'HH:mm:ss') : '--:--:--'}
+          </span>
+
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Speed</span>
+            <Select value={String(rate)} onValueChange={(val) => setRate(Number(val))}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_RATES.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value}x
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ArchiveTimeline from={from} to={to} segments={segments} position={position} onSeek={handleSeek} />
+      </footer>
+    </div>
+  );
+}
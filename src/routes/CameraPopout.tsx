@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { CameraStatus } from '@/types/camera';
+import { useCameraStream } from '@/hooks/use-camera-stream';
+import { useCameraById } from '@/hooks/use-camera-by-id';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { resolveDewarpMode } from '@/lib/fisheyeDewarp';
+import { onPopoutMessage } from '@/lib/popout';
+import { handOffAllStreams, releaseAllStreams } from '@/lib/streamLeases';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+import { PlayerStateOverlay } from '@/components/PlayerStateOverlay';
+import { FisheyeCanvas } from '@/components/FisheyeCanvas';
+
+// Jendela terpisah satu kamera; status & logout diterima dari dashboard
+export default function CameraPopout() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { camera, loadError } = useCameraById(id);
+  const [status, setStatus] = useState<CameraStatus | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const { state: playerState, hasPlayed, failureDetail, retry } = useCameraStream(videoRef, camera, {
+    enabled: true,
+  });
+  const viewTransform = useViewTransform(mainRef, id);
+  const dewarpPref = useCameraPrefs((s) => (id ? s.prefs[id]?.dewarp : undefined));
+  const dewarpMode = resolveDewarpMode(camera, dewarpPref);
+  const dewarping = dewarpMode !== 'original' && hasPlayed;
+
+  useEffect(() => {
+    return onPopoutMessage((message) => {
+      if (message.type === 'camera_status' && message.id === id) {
+        setStatus(message.status);
+      } else if (message.type === 'logout') {
+        releaseAllStreams().finally(() => {
+          window.close();
+          // tab yang dibuka manual tidak bisa ditutup script
+          navigate('/login', { replace: true });
+        });
+      }
+    });
+  }, [id, navigate]);
+
+  // tombol close jendela tidak melewati unmount React → lepas lease di pagehide
+  useEffect(() => {
+    window.addEventListener('pagehide', handOffAllStreams);
+    return () => window.removeEventListener('pagehide', handOffAllStreams);
+  }, []);
+
+  useEffect(() => {
+    if (!camera) return;
+    const previousTitle = document.title;
+    document.title = camera.name;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [camera]);
+
+  const currentStatus = status ?? camera?.status;
+
+  return (
+    <main ref={mainRef} className="relative h-screen w-screen bg-black overflow-hidden">
+      {!camera && !loadError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {loadError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className="text-sm text-destructive">{loadError}</span>
+        </div>
+      )}
+
+      <video
+        ref={videoRef}
+        className="w-full h-full object-contain"
+        style={viewTransform.style}
+        muted
+        playsInline
+      />
+
+      {dewarping && <FisheyeCanvas videoRef={videoRef} mode={dewarpMode} filter={viewTransform.filter} />}
+
+      <PlayerStateOverlay state={playerState} failureDetail={failureDetail} onRetry={retry} />
+
+      {camera && currentStatus && (
+        <div className="absolute top-2 left-2 z-10 flex items-center gap-2 bg-card/80 backdrop-blur px-2 py-1 rounded">
+          <div className={`status-dot ${currentStatus.toLowerCase()}`} />
+          <span className="text-xs font-medium">{camera.name}</span>
+        </div>
+      )}
+
+      {currentStatus === 'OFFLINE' && (
+        <div className="absolute inset-0 flex items-center justify-center bg-destructive/20">
+          <span className="text-sm font-medium text-destructive">OFFLINE</span>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,312 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Activity, Loader2, Camera as CameraIcon, History } from 'lucide-react';
+import { StreamStats, formatLevelLabel } from '@/lib/streamPlayer';
+import { useCameraStream } from '@/hooks/use-camera-stream';
+import { useClipRecorder } from '@/hooks/use-clip-recorder';
+import { useCameraById } from '@/hooks/use-camera-by-id';
+import { useDigitalZoom } from '@/hooks/use-digital-zoom';
+import { usePtzControl } from '@/hooks/use-ptz-control';
+import { useAudioOutput } from '@/hooks/use-audio-output';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { DEWARP_MODES, DewarpMode, resolveDewarpMode } from '@/lib/fisheyeDewarp';
+import { DEFAULT_PLAYBACK_PROFILE, PLAYBACK_PROFILES, PlaybackProfileId } from '@/lib/playbackProfiles';
+import { useCameraPrefs } from '@/state/useCameraPrefs';
+import { SnapshotFormat, downloadSnapshot } from '@/lib/snapshot';
+import { StreamStatsOverlay } from '@/components/StreamStatsOverlay';
+import { PlayerStateOverlay } from '@/components/PlayerStateOverlay';
+import { ClipRecordButton } from '@/components/ClipRecordButton';
+import { LiveScrubber } from '@/components/LiveScrubber';
+import { ZoomMinimap } from '@/components/ZoomMinimap';
+import { PtzOverlay } from '@/components/PtzOverlay';
+import { AudioControl } from '@/components/AudioControl';
+import { FisheyeCanvas } from '@/components/FisheyeCanvas';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+
+const STATS_INTERVAL = 1000;
+
+export default function CameraView() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { camera, loadError } = useCameraById(id);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const zoomAreaRef = useRef<HTMLElement>(null);
+  const [showStats, setShowStats] = useState(true);
+  const [stats, setStats] = useState<StreamStats | null>(null);
+
+  const profilePref = useCameraPrefs((s) => (id ? s.prefs[id]?.profile : undefined));
+  const setCameraPrefs = useCameraPrefs((s) => s.setCameraPrefs);
+
+  const {
+    playerRef,
+    state: playerState,
+    hasPlayed,
+    failureDetail,
+    retry,
+    levels,
+    activeLevel,
+    selectedLevel,
+    setLevel,
+  } = useCameraStream(videoRef, camera, { enabled: true });
+  const sortedLevels = [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+  const activeLevelInfo = levels.find((level) => level.level === activeLevel);
+  const clip = useClipRecorder(videoRef, camera);
+  const audio = useAudioOutput(videoRef, id, { available: hasPlayed });
+
+  const showPtz = Boolean(camera?.ptz_enabled) && hasPlayed;
+  const ptz = usePtzControl(id, { enabled: showPtz, keyboard: true });
+
+  const rememberZoom = useCameraPrefs((s) => (id ? s.prefs[id]?.rememberZoom ?? false : false));
+  const savedZoom = useCameraPrefs((s) => (id ? s.prefs[id]?.zoom : undefined));
+  const dewarpPref = useCameraPrefs((s) => (id ? s.prefs[id]?.dewarp : undefined));
+  const dewarpMode = resolveDewarpMode(camera, dewarpPref);
+  const dewarping = dewarpMode !== 'original' && hasPlayed;
+
+  const { zoom, setZoom, reset: resetZoom, zoomed } = useDigitalZoom(zoomAreaRef, {
+    enabled: hasPlayed && !dewarping,
+    initial: rememberZoom ? savedZoom : undefined,
+    onCommit: (value) => {
+      if (rememberZoom && id) setCameraPrefs(id, { zoom: value });
+    },
+  });
+
+  const viewTransform = useViewTransform(zoomAreaRef, id, zoom);
+
+  const handleSnapshot = async (fileFormat: SnapshotFormat) => {
+    if (!videoRef.current || !camera) return;
+    try {
+      await downloadSnapshot(videoRef.current, camera, fileFormat);
+    } catch (error) {
+      toast.error('Snapshot failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!showStats) return;
+    const interval = setInterval(() => {
+      setStats(playerRef.current?.getStats() ?? null);
+    }, STATS_INTERVAL);
+    return () => clearInterval(interval);
+  }, [showStats, playerRef]);
+
+  return (
+    <div className="flex flex-col h-screen">
+      <header className="relative z-50 h-16 border-b border-border bg-card/50 backdrop-blur flex items-center justify-between px-6">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          {camera && (
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <div className={`status-dot ${camera.status.toLowerCase()}`} />
+                <h1 className="text-lg font-bold truncate">{camera.name}</h1>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {[camera.building, camera.zone].filter(Boolean).join(' • ') || 'No location'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select
+            value={profilePref ?? 'default'}
+            onValueChange={(val) =>
+              id && setCameraPrefs(id, { profile: val === 'default' ? undefined : (val as PlaybackProfileId) })
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">
+                Layout default ({PLAYBACK_PROFILES[DEFAULT_PLAYBACK_PROFILE].label})
+              </SelectItem>
+              {Object.entries(PLAYBACK_PROFILES).map(([profileId, profile]) => (
+                <SelectItem key={profileId} value={profileId}>
+                  {profile.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {camera?.lens_type === 'fisheye' && (
+            <Select
+              value={dewarpMode}
+              onValueChange={(val) => id && setCameraPrefs(id, { dewarp: val as DewarpMode })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEWARP_MODES.map((mode) => (
+                  <SelectItem key={mode.id} value={mode.id}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {levels.length > 1 && (
+            <Select value={String(selectedLevel)} onValueChange={(val) => setLevel(Number(val))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="-1">
+                  Auto{activeLevelInfo && selectedLevel === -1 ? ` (${formatLevelLabel(activeLevelInfo, levels)})` : ''}
+                </SelectItem>
+                {sortedLevels.map((level) => (
+                  <SelectItem key={level.level} value={String(level.level)}>
+                    {formatLevelLabel(level, levels)}
+                    {level.level === activeLevel && ' • active'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="ghost" disabled={!hasPlayed}>
+                <CameraIcon className="h-4 w-4 mr-2" />
+                Snapshot
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleSnapshot('png')}>Save as PNG</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleSnapshot('jpeg')}>Save as JPEG</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <AudioControl
+            audible={audio.audible}
+            volume={audio.volume}
+            level={audio.level}
+            disabled={!hasPlayed}
+            onToggle={audio.toggle}
+            onVolumeChange={audio.setVolume}
+            className="h-9 px-2"
+          />
+
+          <ClipRecordButton
+            recording={clip.recording}
+            elapsed={clip.elapsed}
+            maxSeconds={clip.maxSeconds}
+            disabled={!hasPlayed}
+            onStart={clip.start}
+            onStop={clip.stop}
+            className="h-9"
+          />
+
+          <Button size="sm" variant="ghost" onClick={() => navigate(`/cameras/${id}/archive`)}>
+            <History className="h-4 w-4 mr-2" />
+            Archive
+          </Button>
+
+          <Button
+            size="sm"
+            variant={showStats ? 'default' : 'ghost'}
+            onClick={() => setShowStats((v) => !v)}
+          >
+            <Activity className="h-4 w-4 mr-2" />
+            Stats
+          </Button>
+        </div>
+      </header>
+
+      <main ref={zoomAreaRef} className="flex-1 relative bg-black overflow-hidden">
+        {!camera && !loadError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {loadError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-sm text-destructive">{loadError}</span>
+          </div>
+        )}
+
+        {camera && !camera.hls_url && !camera.webrtc_url && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-sm text-muted-foreground">No stream available for this camera</span>
+          </div>
+        )}
+
+        <video
+          ref={videoRef}
+          className="w-full h-full object-contain"
+          style={viewTransform.style}
+          muted
+          playsInline
+        />
+
+        {dewarping && <FisheyeCanvas videoRef={videoRef} mode={dewarpMode} filter={viewTransform.filter} />}
+
+        <PlayerStateOverlay
+          state={playerState}
+          failureDetail={failureDetail}
+          onRetry={retry}
+        />
+
+        {hasPlayed && (
+          <LiveScrubber playerRef={playerRef} className="absolute bottom-4 left-4 right-4 z-10" />
+        )}
+
+        {showPtz && (
+          <PtzOverlay
+            presets={ptz.presets}
+            onMove={ptz.move}
+            onStop={ptz.stop}
+            onZoom={ptz.zoom}
+            onGotoPreset={ptz.gotoPreset}
+            onSavePreset={ptz.savePreset}
+            className="absolute bottom-20 left-4 z-10"
+          />
+        )}
+
+        {zoomed && !dewarping && (
+          <ZoomMinimap
+            videoRef={videoRef}
+            zoom={zoom}
+            onNavigate={(x, y) => setZoom({ ...zoom, x, y })}
+            onReset={resetZoom}
+            className="absolute bottom-20 right-4 z-10"
+          />
+        )}
+
+        {showStats && (
+          <div className="absolute top-4 right-4 z-10">
+            <StreamStatsOverlay stats={stats} />
+          </div>
+        )}
+
+        {camera?.status === 'OFFLINE' && (
+          <div className="absolute top-4 left-4 z-10 bg-destructive/20 px-2 py-1 rounded">
+            <span className="text-sm font-medium text-destructive">OFFLINE</span>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
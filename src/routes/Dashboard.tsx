@@ -4,8 +4,11 @@ import { LogOut, Search, Video, User, LayoutGrid, Map, Columns2 } from 'lucide-r
 import { useAuth } from '@/state/useAuth';
 import { useCameras } from '@/state/useCameras';
 import { useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { restoreTourWall, useGuardTour } from '@/state/useGuardTour';
 import { useWs } from '@/state/useWs';
 import { WsClient } from '@/lib/wsClient';
+import { releaseAllStreams } from '@/lib/streamLeases';
+import { postPopoutMessage } from '@/lib/popout';
 import {
   requestNotificationPermission,
   registerServiceWorker,
@@ -19,6 +22,8 @@ import { SplitPane } from '@/components/SplitPane';
 import { WsIndicator } from '@/components/WsIndicator';
 import { CameraCrudDialog } from '@/components/CameraCrudDialog';
 import { CameraPicker } from '@/components/CameraPicker';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import { GuardTourControls } from '@/components/GuardTourControls';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -44,9 +49,11 @@ export default function Dashboard() {
     deleteCamera,
     setSelectedCameraIds,
     updateCameraStatus,
+    markMotion,
   } = useCameras();
   const { loadPreferences, splitRatio, setSplitRatio } = useLayoutPrefs();
   const { setConnected } = useWs();
+  const pauseTour = useGuardTour((s) => s.pause);
 
   const [search, setSearch] = useState('');
   const [crudDialogOpen, setCrudDialogOpen] = useState(false);
@@ -57,6 +64,7 @@ export default function Dashboard() {
   // Initialize
   useEffect(() => {
     loadPreferences();
+    restoreTourWall(); // tour terputus oleh reload / tab ditutup
     registerServiceWorker();
     requestNotificationPermission();
   }, [loadPreferences]);
@@ -68,7 +76,12 @@ export default function Dashboard() {
         const response = await api.cameras.getAll();
         if (!mounted) return;
         setCameras(response.data);
-        setSelectedCameraIds(response.data.slice(0, 4).map(c => c.id));
+        // pulihkan kamera dari pemetaan sel terakhir; 4 kamera pertama hanya untuk sesi pertama
+        const ids = new Set(response.data.map((c) => c.id));
+        const restored = useLayoutPrefs
+          .getState()
+          .cellCameraIds.filter((id): id is string => id !== null && ids.has(id));
+        setSelectedCameraIds(restored.length > 0 ? restored : response.data.slice(0, 4).map(c => c.id));
       } catch (e) {
         console.error('Failed to load cameras from API:', e);
       }
@@ -82,13 +95,17 @@ export default function Dashboard() {
     const off = ws.on((event) => {
       if (event.type === 'camera_status') {
         updateCameraStatus(event.id, event.status, event.lastSeen);
+        postPopoutMessage(event); // jendela pop-out tidak punya koneksi WebSocket sendiri
         if (event.status === 'OFFLINE') {
+          pauseTour('alarm'); // operator perlu lihat kejadiannya, jangan diganti halaman
           const camera = cameras.find((c) => c.id === event.id);
           if (camera) showCameraOfflineNotification(camera.name, camera.id);
         }
       } else if (event.type === 'camera_not_found') {
         showCameraNotFoundNotification(event.id);
       } else if (event.type === 'motion_detected') {
+        markMotion(event.id);
+        pauseTour('alarm');
         const camera = cameras.find((c) => c.id === event.id);
         if (camera) toast.info('Motion Detected', { description: `Motion detected at ${camera.name}` });
       }
@@ -97,7 +114,7 @@ export default function Dashboard() {
     ws.connect((connected) => setConnected(connected));
     return () => { off(); ws.disconnect(); };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [setConnected, updateCameraStatus, cameras]);
+  }, [setConnected, updateCameraStatus, markMotion, pauseTour, cameras]);
 
   // Focus camera from notification
   useEffect(() => {
@@ -114,6 +131,7 @@ export default function Dashboard() {
   const handleLogout = async () => {
     try {
       toast.loading('Logging out...');
+      await releaseAllStreams();
       await logout();
       toast.dismiss();
       toast.success('Logged out successfully');
@@ -151,6 +169,10 @@ export default function Dashboard() {
     setFocusedCameraId(camera.id);
   };
 
+  const handleOpenCameraView = (camera: Camera) => {
+    navigate(`/cameras/${camera.id}`);
+  };
+
   const filteredCameras = search
     ? cameras.filter(
         (cam) =>
@@ -177,6 +199,8 @@ export default function Dashboard() {
         </div>
 
         <div className="flex items-center gap-4">
+          <SavedViewsMenu />
+
           <div className="relative w-64">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -229,6 +253,7 @@ export default function Dashboard() {
               onEditCamera={handleEditCamera}
               onDeleteCamera={(cam) => handleDeleteCamera(cam.id)}
               onFocusCameraOnMap={handleFocusCameraOnMap}
+              onOpenCameraView={handleOpenCameraView}
             />
           }
           rightPane={
@@ -236,6 +261,7 @@ export default function Dashboard() {
               cameras={filteredCameras}
               focusedCameraId={focusedCameraId}
               onEditCamera={handleEditCamera}
+              onOpenCameraView={handleOpenCameraView}
               onShowInGrid={(cam) => {
                 if (!selectedCameraIds.includes(cam.id)) {
                   setSelectedCameraIds([...selectedCameraIds, cam.id]);
@@ -250,7 +276,9 @@ export default function Dashboard() {
       {/* Status bar */}
       <footer className="relative z-40 h-12 border-t border-border bg-card/50 backdrop-blur flex items-center justify-between px-6">
         <WsIndicator />
-        
+
+        <GuardTourControls />
+
         {/* Layout mode buttons */}
         <div className="flex gap-2">
           <Button
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Hanya satu kamera yang boleh bersuara; unmute satu tile = mute yang lain
+interface AudioFocusState {
+  audibleCameraId: string | null;
+  volume: number; // 0..1, berlaku untuk kamera yang sedang bersuara
+  setAudibleCamera: (cameraId: string | null) => void;
+  toggleAudibleCamera: (cameraId: string) => void;
+  setVolume: (volume: number) => void;
+}
+
+export const useAudioFocus = create<AudioFocusState>()(
+  persist(
+    (set) => ({
+      audibleCameraId: null,
+      volume: 1,
+
+      setAudibleCamera: (cameraId) => set({ audibleCameraId: cameraId }),
+
+      toggleAudibleCamera: (cameraId) =>
+        set((state) => ({
+          audibleCameraId: state.audibleCameraId === cameraId ? null : cameraId,
+        })),
+
+      setVolume: (volume) => set({ volume: Math.min(1, Math.max(0, volume)) }),
+    }),
+    {
+      name: 'cctv_audio_prefs',
+      // fokus audio tidak dibawa ke sesi berikutnya (autoplay bersuara diblok browser)
+      partialize: (state) => ({ volume: state.volume }),
+    }
+  )
+);
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { authAPI, ApiError } from '@/lib/api';
+import { postPopoutMessage } from '@/lib/popout';
 
 interface User {
   id: string;
@@ -85,6 +86,7 @@ export const useAuth = create<AuthState>()(
         } finally {
           // Always clear local storage
           authAPI.localLogout();
+          postPopoutMessage({ type: 'logout' });
           
           set({
             user: null,
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { StreamProtocolPreference } from '@/lib/streamPlayer';
+import { PlaybackProfileId } from '@/lib/playbackProfiles';
+import { ZoomState } from '@/lib/digitalZoom';
+import { DewarpMode } from '@/lib/fisheyeDewarp';
+import { ViewTransform } from '@/lib/viewTransform';
+
+// Preferensi tampilan/playback per kamera, disimpan di browser operator
+export interface CameraPrefs {
+  protocol?: StreamProtocolPreference; // undefined = ikut setting global
+  profile?: PlaybackProfileId;          // undefined = ikut profil layout
+  rememberZoom?: boolean;               // simpan zoom digital antar sesi
+  zoom?: ZoomState;
+  dewarp?: DewarpMode;                  // hanya dipakai untuk kamera fisheye
+  view?: ViewTransform;                 // rotasi/flip/penyesuaian gambar
+}
+
+interface CameraPrefsState {
+  prefs: Record<string, CameraPrefs>;
+  setCameraPrefs: (cameraId: string, updates: Partial<CameraPrefs>) => void;
+  clearCameraPrefs: (cameraId: string) => void;
+}
+
+export const useCameraPrefs = create<CameraPrefsState>()(
+  persist(
+    (set) => ({
+      prefs: {},
+
+      // nilai undefined = hapus override, field-nya dibuang dari prefs kamera
+      setCameraPrefs: (cameraId, updates) =>
+        set((state) => {
+          const next: CameraPrefs = { ...state.prefs[cameraId], ...updates };
+          (Object.keys(updates) as (keyof CameraPrefs)[]).forEach((key) => {
+            if (updates[key] === undefined) delete next[key];
+          });
+          return { prefs: { ...state.prefs, [cameraId]: next } };
+        }),
+
+      clearCameraPrefs: (cameraId) =>
+        set((state) => {
+          const { [cameraId]: _removed, ...rest } = state.prefs;
+          return { prefs: rest };
+        }),
+    }),
+    {
+      name: 'cctv_camera_prefs',
+    }
+  )
+);
@@ -5,6 +5,7 @@ import { cameraAPI } from '@/lib/api';
 interface CamerasState {
   cameras: Camera[];
   selectedCameraIds: string[];
+  motionAt: Record<string, number>; // timestamp motion terakhir per kamera
   loading: boolean;
   error: string | null;
   fetchCameras: () => Promise<void>;
@@ -14,6 +15,7 @@ interface CamerasState {
   deleteCamera: (id: string) => void;
   setSelectedCameraIds: (ids: string[]) => void;
   updateCameraStatus: (id: string, status: Camera['status'], lastSeen?: string) => void;
+  markMotion: (id: string) => void;
 }
 
 // Mock initial cameras
@@ -71,6 +73,7 @@ interface CamerasState {
 export const useCameras = create<CamerasState>((set) => ({
   cameras: [],
   selectedCameraIds: [],
+  motionAt: {},
   loading: false,
   error: null,
   
@@ -112,4 +115,10 @@ export const useCameras = create<CamerasState>((set) => ({
         cam.id === id ? { ...cam, status, last_seen: lastSeen || cam.last_seen } : cam
       ),
     })),
+
+  // pakai waktu terima event (bukan ts server) supaya tidak terpengaruh clock skew
+  markMotion: (id) =>
+    set((state) => ({
+      motionAt: { ...state.motionAt, [id]: Date.now() },
+    })),
 }));
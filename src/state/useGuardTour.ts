@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { LayoutSnapshot, captureLayoutSnapshot, useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { useCameras } from '@/state/useCameras';
+import { useSavedViews } from '@/state/useSavedViews';
+
+export type TourSource = 'pages' | 'views';
+export type TourPauseReason = 'manual' | 'interaction' | 'alarm';
+
+// Wall operator sebelum tour mulai; ikut disimpan supaya tetap bisa dipulihkan setelah reload
+export interface TourWall {
+  layout: LayoutSnapshot;
+  selectedCameraIds: string[];
+  activeViewId: string | null;
+}
+
+interface GuardTourState {
+  source: TourSource;
+  dwellSeconds: number;
+  viewIds: string[]; // kosong = semua saved view
+  running: boolean;
+  step: number;
+  pauseReason: TourPauseReason | null;
+  wall: TourWall | null;
+  setSource: (source: TourSource) => void;
+  setDwellSeconds: (seconds: number) => void;
+  toggleViewId: (id: string) => void;
+  start: () => void;
+  stop: () => void;
+  pause: (reason: TourPauseReason) => void;
+  resume: () => void;
+  setStep: (step: number) => void;
+  setWall: (wall: TourWall | null) => void;
+}
+
+// alarm paling penting: tidak boleh tertimpa jeda karena interaksi
+const PAUSE_PRIORITY: Record<TourPauseReason, number> = { interaction: 0, manual: 1, alarm: 2 };
+
+export const useGuardTour = create<GuardTourState>()(
+  persist(
+    (set) => ({
+      source: 'pages',
+      dwellSeconds: 15,
+      viewIds: [],
+      running: false,
+      step: 0,
+      pauseReason: null,
+      wall: null,
+
+      setSource: (source) => set({ source }),
+
+      setDwellSeconds: (seconds) => set({ dwellSeconds: seconds }),
+
+      toggleViewId: (id) =>
+        set((state) => ({
+          viewIds: state.viewIds.includes(id) ? state.viewIds.filter((item) => item !== id) : [...state.viewIds, id],
+        })),
+
+      start: () => set({ running: true, step: 0, pauseReason: null }),
+
+      stop: () => set({ running: false, pauseReason: null }),
+
+      pause: (reason) =>
+        set((state) => {
+          if (!state.running) return state;
+          if (state.pauseReason && PAUSE_PRIORITY[state.pauseReason] > PAUSE_PRIORITY[reason]) return state;
+          return { pauseReason: reason };
+        }),
+
+      resume: () => set({ pauseReason: null }),
+
+      setStep: (step) => set({ step }),
+
+      setWall: (wall) => set({ wall }),
+    }),
+    {
+      name: 'cctv_guard_tour',
+      // tour tidak otomatis jalan lagi setelah reload, tapi wall operator tetap dipulihkan
+      partialize: (state) => ({
+        source: state.source,
+        dwellSeconds: state.dwellSeconds,
+        viewIds: state.viewIds,
+        wall: state.wall,
+      }),
+    }
+  )
+);
+
+export const captureTourWall = () => {
+  useGuardTour.getState().setWall({
+    layout: captureLayoutSnapshot(),
+    selectedCameraIds: useCameras.getState().selectedCameraIds,
+    activeViewId: useSavedViews.getState().activeViewId,
+  });
+};
+
+// Kembalikan wall sebelum tour; dipanggil saat tour dihentikan dan saat dashboard dimuat
+// (tour yang terputus karena reload/logout meninggalkan halaman tour terakhir di layout)
+export const restoreTourWall = () => {
+  const { wall, setWall } = useGuardTour.getState();
+  if (!wall) return;
+  setWall(null);
+  useLayoutPrefs.getState().applySnapshot(wall.layout);
+  useCameras.getState().setSelectedCameraIds(wall.selectedCameraIds);
+  useSavedViews.getState().setActiveView(wall.activeViewId);
+};
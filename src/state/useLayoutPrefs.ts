@@ -1,13 +1,47 @@
 import { create } from 'zustand';
-import { GridLayout } from '@/types/camera';
+import { CustomGridLayout, GridLayout } from '@/types/camera';
+import { StreamProtocolPreference } from '@/lib/streamPlayer';
+import { PlaybackProfileId } from '@/lib/playbackProfiles';
+import { CellAssignments, CellSequence, CellSequences } from '@/lib/cellAssignments';
+
+export interface MapViewport {
+  center: [number, number];
+  zoom: number;
+}
+
+// Bagian layout yang ikut disimpan di saved view
+export interface LayoutSnapshot {
+  gridLayout: GridLayout;
+  cellCameraIds: CellAssignments;
+  splitRatio: number;
+  mapViewport: MapViewport | null;
+}
 
 interface LayoutPrefsState {
   gridLayout: GridLayout;
   autoPlayPreview: boolean;
   splitRatio: number; // 0 = full map, 50 = 50:50, 100 = full grid
+  streamProtocol: StreamProtocolPreference;
+  layoutProfiles: Partial<Record<GridLayout, PlaybackProfileId>>; // profil default per grid layout
+  maxLivePlayers: number; // 0 = tanpa batas; sisanya tampil snapshot
+  pinnedCameraIds: string[];
+  customLayouts: CustomGridLayout[];
+  cellCameraIds: CellAssignments; // kamera per sel grid, urut sesuai tile
+  mapViewport: MapViewport | null; // null = fit ke semua kamera
+  cellSequences: CellSequences;
   setGridLayout: (layout: GridLayout) => void;
   setAutoPlayPreview: (value: boolean) => void;
   setSplitRatio: (ratio: number) => void;
+  setStreamProtocol: (protocol: StreamProtocolPreference) => void;
+  setLayoutProfile: (layout: GridLayout, profile: PlaybackProfileId) => void;
+  setMaxLivePlayers: (value: number) => void;
+  togglePinnedCamera: (id: string) => void;
+  saveCustomLayout: (layout: CustomGridLayout) => void;
+  deleteCustomLayout: (id: CustomGridLayout['id']) => void;
+  setCellCameraIds: (cells: CellAssignments) => void;
+  setMapViewport: (viewport: MapViewport) => void;
+  setCellSequence: (cellIndex: number, sequence: CellSequence | null) => void;
+  applySnapshot: (snapshot: LayoutSnapshot) => void;
   loadPreferences: () => void;
   savePreferences: () => void;
 }
@@ -18,6 +52,14 @@ export const useLayoutPrefs = create<LayoutPrefsState>((set, get) => ({
   gridLayout: '2x2',
   autoPlayPreview: false,
   splitRatio: 50,
+  streamProtocol: 'hls',
+  layoutProfiles: {},
+  maxLivePlayers: 9,
+  pinnedCameraIds: [],
+  customLayouts: [],
+  cellCameraIds: [],
+  mapViewport: null,
+  cellSequences: {},
 
   setGridLayout: (layout) => {
     set({ gridLayout: layout });
@@ -34,6 +76,75 @@ export const useLayoutPrefs = create<LayoutPrefsState>((set, get) => ({
     get().savePreferences();
   },
 
+  setStreamProtocol: (protocol) => {
+    set({ streamProtocol: protocol });
+    get().savePreferences();
+  },
+
+  setLayoutProfile: (layout, profile) => {
+    set((state) => ({ layoutProfiles: { ...state.layoutProfiles, [layout]: profile } }));
+    get().savePreferences();
+  },
+
+  setMaxLivePlayers: (value) => {
+    set({ maxLivePlayers: value });
+    get().savePreferences();
+  },
+
+  togglePinnedCamera: (id) => {
+    set((state) => ({
+      pinnedCameraIds: state.pinnedCameraIds.includes(id)
+        ? state.pinnedCameraIds.filter((pid) => pid !== id)
+        : [...state.pinnedCameraIds, id],
+    }));
+    get().savePreferences();
+  },
+
+  saveCustomLayout: (layout) => {
+    set((state) => ({
+      customLayouts: state.customLayouts.some((item) => item.id === layout.id)
+        ? state.customLayouts.map((item) => (item.id === layout.id ? layout : item))
+        : [...state.customLayouts, layout],
+    }));
+    get().savePreferences();
+  },
+
+  deleteCustomLayout: (id) => {
+    set((state) => {
+      const { [id]: _removed, ...layoutProfiles } = state.layoutProfiles;
+      return {
+        customLayouts: state.customLayouts.filter((item) => item.id !== id),
+        layoutProfiles,
+        gridLayout: state.gridLayout === id ? '2x2' : state.gridLayout,
+      };
+    });
+    get().savePreferences();
+  },
+
+  setCellCameraIds: (cells) => {
+    set({ cellCameraIds: cells });
+    get().savePreferences();
+  },
+
+  setMapViewport: (viewport) => {
+    set({ mapViewport: viewport });
+    get().savePreferences();
+  },
+
+  setCellSequence: (cellIndex, sequence) => {
+    set((state) => {
+      const { [cellIndex]: _removed, ...rest } = state.cellSequences;
+      return { cellSequences: sequence ? { ...rest, [cellIndex]: sequence } : rest };
+    });
+    get().savePreferences();
+  },
+
+  applySnapshot: ({ gridLayout, cellCameraIds, splitRatio, mapViewport }) => {
+    // viewport kosong = pertahankan posisi peta sekarang
+    set((state) => ({ gridLayout, cellCameraIds, splitRatio, mapViewport: mapViewport ?? state.mapViewport }));
+    get().savePreferences();
+  },
+
   loadPreferences: () => {
     try {
       const stored = localStorage.getItem(STORAGE_KEY);
@@ -43,6 +154,14 @@ export const useLayoutPrefs = create<LayoutPrefsState>((set, get) => ({
           gridLayout: prefs.gridLayout || '2x2',
           autoPlayPreview: prefs.autoPlayPreview || false,
           splitRatio: prefs.splitRatio ?? 50,
+          streamProtocol: prefs.streamProtocol || 'hls',
+          layoutProfiles: prefs.layoutProfiles || {},
+          maxLivePlayers: prefs.maxLivePlayers ?? 9,
+          pinnedCameraIds: prefs.pinnedCameraIds || [],
+          customLayouts: prefs.customLayouts || [],
+          cellCameraIds: prefs.cellCameraIds || [],
+          mapViewport: prefs.mapViewport ?? null,
+          cellSequences: prefs.cellSequences || {},
         });
       }
     } catch (error) {
@@ -52,13 +171,42 @@ export const useLayoutPrefs = create<LayoutPrefsState>((set, get) => ({
 
   savePreferences: () => {
     try {
-      const { gridLayout, autoPlayPreview, splitRatio } = get();
+      const {
+        gridLayout,
+        autoPlayPreview,
+        splitRatio,
+        streamProtocol,
+        layoutProfiles,
+        maxLivePlayers,
+        pinnedCameraIds,
+        customLayouts,
+        cellCameraIds,
+        mapViewport,
+        cellSequences,
+      } = get();
       localStorage.setItem(
         STORAGE_KEY,
-        JSON.stringify({ gridLayout, autoPlayPreview, splitRatio })
+        JSON.stringify({
+          gridLayout,
+          autoPlayPreview,
+          splitRatio,
+          streamProtocol,
+          layoutProfiles,
+          maxLivePlayers,
+          pinnedCameraIds,
+          customLayouts,
+          cellCameraIds,
+          mapViewport,
+          cellSequences,
+        })
       );
     } catch (error) {
       console.error('Failed to save layout preferences:', error);
     }
   },
 }));
+
+export const captureLayoutSnapshot = (): LayoutSnapshot => {
+  const { gridLayout, cellCameraIds, splitRatio, mapViewport } = useLayoutPrefs.getState();
+  return { gridLayout, cellCameraIds, splitRatio, mapViewport };
+};
@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { LayoutSnapshot, useLayoutPrefs } from '@/state/useLayoutPrefs';
+import { useCameras } from '@/state/useCameras';
+
+// Tampilan wall bernama: layout grid + kamera per sel + rasio split + posisi peta
+export interface SavedView extends LayoutSnapshot {
+  id: string;
+  name: string;
+}
+
+interface SavedViewsState {
+  views: SavedView[];
+  activeViewId: string | null; // view terakhir yang dipakai
+  createView: (name: string, snapshot: LayoutSnapshot) => SavedView;
+  updateView: (id: string, updates: Partial<Omit<SavedView, 'id'>>) => void;
+  duplicateView: (id: string) => SavedView | null;
+  deleteView: (id: string) => void;
+  setActiveView: (id: string | null) => void;
+}
+
+// suffix acak supaya dua view yang dibuat di milidetik yang sama tidak bentrok
+// (crypto.randomUUID tidak tersedia di origin http LAN)
+const createViewId = () => `view:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const useSavedViews = create<SavedViewsState>()(
+  persist(
+    (set, get) => ({
+      views: [],
+      activeViewId: null,
+
+      createView: (name, snapshot) => {
+        const view: SavedView = { ...snapshot, cellCameraIds: [...snapshot.cellCameraIds], id: createViewId(), name };
+        set((state) => ({ views: [...state.views, view], activeViewId: view.id }));
+        return view;
+      },
+
+      updateView: (id, updates) =>
+        set((state) => ({
+          views: state.views.map((view) => (view.id === id ? { ...view, ...updates } : view)),
+        })),
+
+      duplicateView: (id) => {
+        const source = get().views.find((view) => view.id === id);
+        if (!source) return null;
+        const copy: SavedView = { ...source, id: createViewId(), name: `${source.name} (copy)` };
+        set((state) => ({ views: [...state.views, copy] }));
+        return copy;
+      },
+
+      deleteView: (id) =>
+        set((state) => ({
+          views: state.views.filter((view) => view.id !== id),
+          activeViewId: state.activeViewId === id ? null : state.activeViewId,
+        })),
+
+      setActiveView: (id) => set({ activeViewId: id }),
+    }),
+    {
+      name: 'cctv_saved_views',
+    }
+  )
+);
+
+// Terapkan view ke grid & peta; kamera terpilih = kamera yang punya sel di view ini
+export const applySavedView = (view: SavedView) => {
+  useLayoutPrefs.getState().applySnapshot(view);
+  useCameras.getState().setSelectedCameraIds(view.cellCameraIds.filter((id): id is string => id !== null));
+  useSavedViews.getState().setActiveView(view.id);
+};
@@ -1,5 +1,7 @@
 export type CameraStatus = 'READY' | 'OFFLINE' | 'ERROR' | 'UNKNOWN';
 
+export type LensType = 'standard' | 'fisheye';
+
 export interface Camera {
   id: string;
   name: string;
@@ -20,6 +22,8 @@ export interface Camera {
   model?: string;
   resolution?: string;
   fps?: number;
+  ptz_enabled?: boolean;   // kamera bisa dikontrol pan/tilt/zoom
+  lens_type?: LensType;    // fisheye = kamera 360° plafon, bisa di-dewarp
   
   // Metadata
   tags?: string[];
@@ -52,6 +56,8 @@ export interface CreateCameraRequest {
   model?: string;
   resolution?: string;
   fps?: number;
+  ptz_enabled?: boolean;
+  lens_type?: LensType;
   tags?: string[];
 }
 
@@ -64,10 +70,39 @@ export interface UpdateCameraRequest {
   building?: string;
   zone?: string;
   status?: CameraStatus;
+  ptz_enabled?: boolean;
+  lens_type?: LensType;
   tags?: string[];
   is_active?: boolean;
 }
 
+// PTZ: kecepatan -1..1 per sumbu (pan kanan +, tilt atas +)
+export interface PtzVelocity {
+  pan: number;
+  tilt: number;
+}
+
+export interface PtzPreset {
+  id: string;
+  name: string;
+}
+
+// Recording archive (segmen VOD yang disimpan backend)
+export interface RecordingSegment {
+  id: string;
+  camera_id: string;
+  start_time: string;   // ISO 8601
+  end_time: string;     // ISO 8601
+  duration: number;     // detik
+  size_bytes?: number;
+}
+
+export interface RecordingPlayback {
+  url: string;          // playlist VOD (m3u8)
+  start_time: string;   // waktu yang dipetakan ke posisi 0 di playlist
+  end_time: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message: string;
@@ -87,14 +122,31 @@ export interface PaginatedResponse<T> {
 }
 
 
-export type GridLayout = '2x2' | '4x4' | '2x4' | '6x4' | '3x6';
+export type PresetGridLayout = '2x2' | '4x4' | '2x4' | '6x4' | '3x6';
+
+// layout buatan user direferensikan lewat id-nya
+export type GridLayout = PresetGridLayout | `custom:${string}`;
 
 export interface GridLayoutConfig {
   cols: number;
   rows: number;
 }
 
-export const GRID_LAYOUTS: Record<GridLayout, GridLayoutConfig> = {
+// Posisi tile dalam grid (0-based); span > 1 = sel yang digabung
+export interface GridTile {
+  col: number;
+  row: number;
+  colSpan: number;
+  rowSpan: number;
+}
+
+export interface CustomGridLayout extends GridLayoutConfig {
+  id: `custom:${string}`;
+  name: string;
+  tiles: GridTile[];
+}
+
+export const GRID_LAYOUTS: Record<PresetGridLayout, GridLayoutConfig> = {
   '2x2': { cols: 2, rows: 2 },
   '4x4': { cols: 4, rows: 4 },
   '2x4': { cols: 2, rows: 4 },